@@ -1,224 +1,131 @@
 /* Domain Check Worker
- * This worker processes domain availability checks in the background,
- * preventing UI freezes when checking multiple domains at once.
+ * Runs the detection pipeline of useDomainCheck (provider queries, wildcard check, parking analysis and
+ * interpretation) in the background, so large sweeps don't make the main thread sluggish.
+ * useDomainCheckWithWorkers spreads a sweep's domains over a small pool of these workers.
  */
 
-// Define check steps for more detailed progress reporting
-enum CheckStage {
-  PREPARING = 'preparing',
-  WILDCARD_CHECK = 'wildcard_check',
-  PRIMARY_QUERY = 'primary_query',
-  FALLBACK_QUERY = 'fallback_query',
-  ANALYZING = 'analyzing',
-  FINALIZING = 'finalizing',
-  COMPLETE = 'complete'
-}
+import { useDomainCheck } from './useDomainCheck'
+import type { CheckEvent, DomainResult } from './useDomainCheck'
+import { sharedProviderRegistry } from '~/utils/ProviderRegistry'
+import type { ProviderEntry } from '~/utils/ProviderRegistry'
+import type { RetryPolicyOptions } from '~/utils/RetryPolicy'
+import type { ConsensusPolicy } from '~/utils/ConsensusPolicy'
+import type { ScoringThresholds } from '~/utils/VerdictScoring'
 
 // Define the interfaces needed for worker communication
-interface DomainCheckRequest {
+// Every message carries the id of the check it belongs to, so messages of a cancelled check can be told apart
+export interface DomainCheckRequest {
+  type: 'check';
+  id: number;
   domainName: string;
   tlds: string[];
+  // The page's settings, which the worker can't read itself (it has no localStorage)
+  providers: ProviderEntry[];
+  consensusPolicy: ConsensusPolicy;
+  retryPolicy?: RetryPolicyOptions;
+  scoringThresholds: ScoringThresholds;
+  maxConcurrentDomains: number;
+  rateLimitShare: number; // This worker's share of each provider's rate limit
 }
 
-interface ProgressState {
-  percentage: number;
-  currentDomain?: string;
-  stage: CheckStage;
-  domainsProcessed: number;
-  totalDomains: number;
-  detailedMessage?: string;
+export interface DomainCheckCancel {
+  type: 'cancel';
+  id: number;
 }
 
-interface DomainCheckProgress {
+export interface DomainCheckProgress {
   type: 'progress';
-  progressState: Partial<ProgressState>;
-  // Keeping these for backwards compatibility
-  progress?: number;
-  domain?: string;
+  id: number;
+  event: CheckEvent;
 }
 
-interface DomainCheckResult {
+export interface DomainCheckResult {
   type: 'result';
-  results: any[]; // Will contain the array of DomainResult objects
+  id: number;
+  results: DomainResult[]; // One result as each domain completes; all of them, with `done`, at the end
+  done?: boolean;
 }
 
-interface DomainCheckError {
+export interface DomainCheckError {
   type: 'error';
+  id: number;
   message: string;
   domain?: string;
 }
 
-// Message handler
-self.onmessage = async (event: MessageEvent<DomainCheckRequest>) => {
-  try {
-    const { domainName, tlds } = event.data;
-    
-    if (!domainName || !tlds || !Array.isArray(tlds) || tlds.length === 0) {
-      self.postMessage({
-        type: 'error',
-        message: 'Invalid request: domainName and tlds array are required'
-      } as DomainCheckError);
-      return;
-    }
-    
-    // We'll run the checks sequentially in the worker
-    const results: any[] = [];
-    const totalDomains = tlds.length;
-    
-    // Initial progress state
-    self.postMessage({
-      type: 'progress',
-      progressState: {
-        percentage: 0,
-        stage: CheckStage.PREPARING,
-        domainsProcessed: 0,
-        totalDomains: totalDomains,
-        detailedMessage: 'Preparing domain checks...'
-      }
-    } as DomainCheckProgress);
-    
-    // Domain percentage allocation
-    const domainPercentage = 100 / totalDomains;
-    
-    for (let i = 0; i < tlds.length; i++) {
-      const tld = tlds[i];
-      const fullDomain = `${domainName}${tld}`;
-      
-      // Update for starting this domain
-      self.postMessage({
-        type: 'progress',
-        progressState: {
-          percentage: (i / totalDomains) * 95, // Reserve 5% for finalization
-          currentDomain: fullDomain,
-          stage: CheckStage.WILDCARD_CHECK,
-          domainsProcessed: i,
-          totalDomains: totalDomains,
-          detailedMessage: `Starting check for ${fullDomain}`
-        }
-      } as DomainCheckProgress);
-      
-      try {
-        // WILDCARD CHECK PHASE - Update progress for current phase
-        self.postMessage({
-          type: 'progress',
-          progressState: {
-            percentage: (i / totalDomains) * 95 + (domainPercentage * 0.2),
-            currentDomain: fullDomain,
-            stage: CheckStage.WILDCARD_CHECK,
-            detailedMessage: `Checking wildcard DNS for ${fullDomain}`
-          }
-        } as DomainCheckProgress);
-        
-        // Simulate progress through phases - this should be replaced with actual checking logic
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // PRIMARY QUERY PHASE
-        self.postMessage({
-          type: 'progress',
-          progressState: {
-            percentage: (i / totalDomains) * 95 + (domainPercentage * 0.4),
-            currentDomain: fullDomain,
-            stage: CheckStage.PRIMARY_QUERY,
-            detailedMessage: `Querying DNS providers for ${fullDomain}`
-          }
-        } as DomainCheckProgress);
-        
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // FALLBACK PHASE - May be skipped in real implementation
-        self.postMessage({
-          type: 'progress',
-          progressState: {
-            percentage: (i / totalDomains) * 95 + (domainPercentage * 0.6),
-            currentDomain: fullDomain,
-            stage: CheckStage.FALLBACK_QUERY,
-            detailedMessage: `Performing additional DNS checks for ${fullDomain}`
-          }
-        } as DomainCheckProgress);
-        
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // ANALYSIS PHASE
-        self.postMessage({
-          type: 'progress',
-          progressState: {
-            percentage: (i / totalDomains) * 95 + (domainPercentage * 0.8),
-            currentDomain: fullDomain,
-            stage: CheckStage.ANALYZING,
-            detailedMessage: `Analyzing DNS responses for ${fullDomain}`
-          }
-        } as DomainCheckProgress);
-        
-        // Note: The worker will import its own checkDomainAvailability function
-        // from a separate module that's compatible with web workers
-        // For now, simulate the check with a placeholder
-        
-        // In the actual implementation, this would be:
-        // const result = await checkDomainAvailability(fullDomain);
-        
-        // For now, just send a placeholder message to indicate we need to implement this
-        self.postMessage({
-          type: 'error',
-          message: 'Worker implementation incomplete - checkDomainAvailability needs to be imported and called here',
-          domain: fullDomain
-        } as DomainCheckError);
-        
-        // Update progress for completing this domain
-        self.postMessage({
-          type: 'progress',
-          progressState: {
-            percentage: (i + 1) / totalDomains * 95,
-            domainsProcessed: i + 1,
-            currentDomain: fullDomain,
-            stage: CheckStage.FINALIZING,
-            detailedMessage: `Completed check for ${fullDomain}`
-          }
-        } as DomainCheckProgress);
-        
-      } catch (error) {
-        // Handle individual domain errors but continue processing
-        console.error(`Worker: Error checking ${fullDomain}:`, error);
-        
-        // Update progress despite error
-        self.postMessage({
-          type: 'progress',
-          progressState: {
-            percentage: (i + 1) / totalDomains * 95,
-            domainsProcessed: i + 1,
-            currentDomain: fullDomain,
-            stage: CheckStage.FINALIZING,
-            detailedMessage: `Error checking ${fullDomain}`
-          }
-        } as DomainCheckProgress);
-      }
-    }
-    
-    // Final progress update before sending results
-    self.postMessage({
-      type: 'progress',
-      progressState: {
-        percentage: 95,
-        stage: CheckStage.FINALIZING,
-        domainsProcessed: totalDomains,
-        totalDomains: totalDomains,
-        detailedMessage: 'Finalizing all domain checks...'
+export type DomainCheckWorkerMessage = DomainCheckProgress | DomainCheckResult | DomainCheckError;
+
+const post = (message: DomainCheckWorkerMessage) => self.postMessage(message);
+
+// The pipeline, created on the first request and again whenever the pool hands this worker different settings
+let checker: ReturnType<typeof useDomainCheck> | null = null;
+let checkerSettings = '';
+// The id of the check running, which streamed events and results belong to
+let currentId: number | null = null;
+// Checks run one at a time; a new one waits for the last to wind down
+let running: Promise<void> = Promise.resolve();
+const controllers = new Map<number, AbortController>();
+
+const getChecker = (request: DomainCheckRequest) => {
+  const { retryPolicy, scoringThresholds, maxConcurrentDomains, rateLimitShare } = request;
+  const settings = JSON.stringify({ retryPolicy, scoringThresholds, maxConcurrentDomains, rateLimitShare });
+  if (!checker || settings !== checkerSettings) {
+    checker = useDomainCheck({
+      retryPolicy,
+      scoringThresholds,
+      maxConcurrentDomains,
+      rateLimitShare,
+      // The page serves and stores cached results
+      resultCache: null,
+      onCheckEvent: event => {
+        if (currentId !== null) post({ type: 'progress', id: currentId, event });
+      },
+      onResult: result => {
+        if (currentId !== null) post({ type: 'result', id: currentId, results: [result] });
       }
-    } as DomainCheckProgress);
-    
-    // Send the final results
-    self.postMessage({
-      type: 'result',
-      results: results
-    } as DomainCheckResult);
-    
+    });
+    checkerSettings = settings;
+  }
+  return checker;
+};
+
+const runCheck = async (request: DomainCheckRequest, signal: AbortSignal) => {
+  const { id, domainName, tlds } = request;
+  currentId = id;
+  try {
+    sharedProviderRegistry.replace(request.providers);
+    const { checkDomains, setConsensusPolicy, results } = getChecker(request);
+    setConsensusPolicy(request.consensusPolicy);
+    await checkDomains(domainName, tlds, signal);
+
+    // The last message carries all results again, in case the page missed any
+    post({ type: 'result', id, results: JSON.parse(JSON.stringify(results)), done: true });
   } catch (error) {
     // Handle any unexpected errors in the worker
-    self.postMessage({
-      type: 'error',
-      message: `Worker error: ${error instanceof Error ? error.message : String(error)}`
-    } as DomainCheckError);
+    post({ type: 'error', id, message: `Worker error: ${error instanceof Error ? error.message : String(error)}` });
+  } finally {
+    currentId = null;
+    controllers.delete(id);
   }
 };
 
-// Export an empty object to satisfy TypeScript module requirement
-export {}; 
\ No newline at end of file
+// Message handler
+self.onmessage = (event: MessageEvent<DomainCheckRequest | DomainCheckCancel>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  if (!request.domainName || !Array.isArray(request.tlds) || request.tlds.length === 0) {
+    post({ type: 'error', id: request.id, message: 'Invalid request: domainName and tlds array are required' });
+    return;
+  }
+
+  // A new check replaces any still running
+  controllers.forEach(controller => controller.abort());
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+  running = running.then(() => runCheck(request, controller.signal));
+};
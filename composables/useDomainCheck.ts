@@ -1,7 +1,34 @@
-import { ref, reactive, computed } from 'vue'
+import { ref, reactive, computed, getCurrentScope, onScopeDispose } from 'vue'
 import { namecheapTLDs } from '~/utils/tlds'
-import { DohResolver, DnsStatusCode, DnsRecordType } from '~/utils/DohResolver'
-import type { DnsResponse } from '~/utils/DohResolver'
+import { DohResolver, DnsStatusCode, DnsRecordType, DohHttpError, DohNetworkError, DohParseError, DohTimeoutError, MethodNotAllowedError } from '~/utils/DohResolver'
+import type { DnsResponse, EdnsOptions } from '~/utils/DohResolver'
+import { DnssecValidator } from '~/utils/DnssecValidator'
+import type { DnssecStatus, DnssecValidationResult } from '~/utils/DnssecValidator'
+import type { DenialProof } from '~/utils/DenialOfExistence'
+import { sharedDnsCache } from '~/utils/DnsCache'
+import { DnsTransportUnavailableError, HttpsTransport } from '~/utils/DnsTransport'
+import { getProviderHeaders, getProviderTransport, sharedProviderRegistry } from '~/utils/ProviderRegistry'
+import type { ProviderEntry, ProviderRole } from '~/utils/ProviderRegistry'
+import { DnsRecorder, DnsReplayer, DnsReplayMissError, RecordingTransport, ReplayTransport } from '~/utils/DnsSession'
+import type { DnsFixture } from '~/utils/DnsSession'
+import type { DnsTransport } from '~/utils/DnsTransport'
+import { recordTypeName } from '~/utils/DnsMessage'
+import { DEFAULT_RETRY_POLICY, classifyRetryError, mergeRetryPolicy, planRetry, waitForRetry } from '~/utils/RetryPolicy'
+import type { RetryPolicy, RetryPolicyOptions } from '~/utils/RetryPolicy'
+import { ConcurrencyLimiter, TokenBucket } from '~/utils/RequestScheduler'
+import type { TokenBucketOptions } from '~/utils/RequestScheduler'
+import { HealthTrackingTransport, ProviderHealthTracker } from '~/utils/ProviderHealth'
+import type { ProviderHealthSnapshot } from '~/utils/ProviderHealth'
+import { resolveConsensusPolicy } from '~/utils/ConsensusPolicy'
+import type { ConsensusPolicy, ConsensusPreset } from '~/utils/ConsensusPolicy'
+import { ResultCache } from '~/utils/ResultCache'
+import { createEvidence } from '~/utils/Evidence'
+import type { Evidence, EvidenceDirection } from '~/utils/Evidence'
+import { DEFAULT_SCORING_RULES, DEFAULT_SCORING_THRESHOLDS, scoreVerdict } from '~/utils/VerdictScoring'
+import type { ScoringRule, ScoringThresholds, VerdictStatus } from '~/utils/VerdictScoring'
+import { BUILTIN_EVIDENCE_SOURCES, PARKED_NS_WEIGHT, PARKED_TXT_WEIGHT, matchWildcardProbe } from '~/utils/EvidenceSource'
+import type { EvidenceAnswer, EvidenceQuery, EvidenceSource, EvidenceSourceContext } from '~/utils/EvidenceSource'
+import type { DomainCheckCancel, DomainCheckRequest, DomainCheckWorkerMessage } from './domainCheck.worker'
 
 // --- Constants ---
 const DNS_STATUS_NOERROR = 0
@@ -11,10 +38,8 @@ const DNS_STATUS_NXDOMAIN = 3
 const DNS_STATUS_NOTIMP = 4
 const DNS_STATUS_REFUSED = 5
 
-const DNS_RECORD_TYPE_A = 1
 const DNS_RECORD_TYPE_NS = 2
 const DNS_RECORD_TYPE_SOA = 6
-const DNS_RECORD_TYPE_TXT = 16
 const DNS_RECORD_TYPE_RRSIG = 46
 const DNS_RECORD_TYPE_NSEC3 = 50
 
@@ -24,200 +49,21 @@ const ERROR_CODES_SUGGESTING_DOMAIN_EXISTS = [
   DNS_STATUS_REFUSED,  // Query Refused
 ];
 
-const TIMEOUT_MS = 5000 // 5 seconds timeout
-const MAX_RETRIES = 1 // Maximum number of retries for transient network/timeout errors
-
-// Known TLDs that frequently use wildcards
-const KNOWN_WILDCARD_TLDS = new Set([
-  '.tk', '.ml', '.ga', '.cf', '.gq', // Freenom TLDs
-  '.to', '.cc', '.ws', '.pw', // Several others known to use wildcards
-]);
-
-// --- Parking Detection Data ---
-// Source: https://raw.githubusercontent.com/MISP/misp-warninglists/main/lists/parking-domain-ns/list.json
-const PARKING_NAMESERVERS = new Set([
-  'above.com',
-  'afternic.com',
-  'alter.com',
-  'bodis.com',
-  'bookmyname.com',
-  'brainydns.com',
-  'brandbucket.com',
-  'chookdns.com',
-  'cnomy.com',
-  'commonmx.com',
-  'dan.com',
-  'day.biz',
-  'dingodns.com',
-  'directnic.com',
-  'dne.com',
-  'dnslink.com',
-  'dnsnuts.com',
-  'dnsowl.com',
-  'dnsspark.com',
-  'domain-for-sale.at',
-  'domain-for-sale.se',
-  'domaincntrol.com',
-  'domainhasexpired.com',
-  'domainist.com',
-  'domainmarket.com',
-  'domainmx.com',
-  'domainorderdns.nl',
-  'domainparking.ru',
-  'domainprofi.de',
-  'domainrecover.com',
-  'dsredirection.com',
-  'dsredirects.com',
-  'eftydns.com',
-  'emailverification.info',
-  'emu-dns.com',
-  'expiereddnsmanager.com',
-  'expirationwarning.net',
-  'expired.uniregistry-dns.com',
-  'fabulous.com',
-  'failed-whois-verification.namecheap.com.',
-  'fastpark.net',
-  'freenom.com',
-  'gname.net',
-  'hastydns.com',
-  'hostresolver.com',
-  'ibspark.com',
-  'kirklanddc.com',
-  'koaladns.com',
-  'magpiedns.com',
-  'malkm.com',
-  'markmonitor.com',
-  'mijndomein.nl',
-  'milesmx.com',
-  'mytrafficmanagement.com',
-  'name.com',
-  'namedynamics.net',
-  'nameprovider.net',
-  'ndsplitter.com',
-  'ns01.cashparking.com',
-  'ns02.cashparking.com',
-  'ns1.domain-is-4-sale-at-domainmarket.com',
-  'ns1.domain.io',
-  'ns1.namefind.com',
-  'ns1.park.do',
-  'ns1.parkingcrew.net',
-  'ns1.pql.net',
-  'ns1.sedoparking.com',
-  'ns1.smartname.com',
-  'ns1.sonexo.eu',
-  'ns1.undeveloped.com',
-  'ns2.domain.io',
-  'ns2.domainmarket.com',
-  'ns2.namefind.com',
-  'ns2.park.do',
-  'ns2.parkingcrew.net',
-  'ns2.pql.net',
-  'ns2.sedoparking.com',
-  'ns2.smartname.com',
-  'ns2.sonexo.com',
-  'ns2.undeveloped.com',
-  'ns3.tppns.com',
-  'ns4.tppns.com',
-  'nsresolution.com',
-  'one.com',
-  'onlydomains.com',
-  'panamans.com',
-  'park1.encirca.net',
-  'park2.encirca.net',
-  'parkdns1.internetvikings.com',
-  'parkdns2.internetvikings.com',
-  'parking-page.net',
-  'parking.namecheap.com',
-  'parking1.ovh.net',
-  'parking2.ovh.net',
-  'parkingcrew.net',
-  'parkingpage.namecheap.com',
-  'parkingspa.com',
-  'parklogic.com',
-  'parktons.com',
-  'perfectdomain.com',
-  'quokkadns.com',
-  'redirectdom.com',
-  'redmonddc.com',
-  'registrar-servers.com',
-  'renewyourname.net',
-  'rentondc.com',
-  'rookdns.com',
-  'rzone.de',
-  'sav.com',
-  'searchfusion.com',
-  'searchreinvented.com',
-  'securetrafficrouting.com',
-  'sedo.com',
-  'sedoparking.com',
-  'smtmdns.com',
-  'snparking.ru',
-  'squadhelp.com',
-  'sslparking.com',
-  'tacomadc.com',
-  'taipandns.com',
-  'thednscloud.com',
-  'torresdns.com',
-  'trafficcontrolrouter.com',
-  'trustednam.es',
-  'uniregistrymarket.link',
-  'verify-contact-details.namecheap.com.',
-  'voodoo.com',
-  'weaponizedcow.com',
-  'wombatdns.com',
-  'wordpress.com',
-  'www.undeveloped.com----type.in',
-  'your-browser.this-domain.eu',
-  'ztomy.com',
-  'dns1.registrar-servers.com',
-  'dns2.registrar-servers.com'
-].map(ns => ns.toLowerCase())); // Store in lowercase for case-insensitive comparison
-
-// Comprehensive pattern definitions based on research (Memoized at module level)
-const PARKING_PATTERNS = {
-    // Restrictive SPF policies
-    SPF: [
-        /^v=spf1\s+-all$/i,                   // Explicit block all
-        /^v=spf1\s+(?!.*[?~+]).*-all$/i       // Any non-permissive SPF ending with -all
-    ],
-    // Empty/null DKIM configurations
-    DKIM: [
-        /v=DKIM1;\s*p=\s*$/i,                 // Empty p parameter
-        /v=DKIM1;\s*p=["']?\s*["']?$/i,       // Empty quoted p parameter
-        /v=DKIM1;\s*k=rsa;\s*p=$/i            // RSA key with empty p
-    ],
-    // Restrictive DMARC policies
-    DMARC: [
-        /v=DMARC1;\s*p=reject/i,              // Reject policy
-        /v=DMARC1;\s*p=quarantine/i,          // Quarantine policy
-        /v=DMARC1;\s*p=reject;\s*adkim=s/i    // Strict alignment
-    ],
-    // Explicit registrar parking indicators
-    REGISTRAR: [
-        /parking_verification/i,               // Standard parking verification
-        /domain_control_validation/i,          // Domain control validation
-        /sedoparking/i,                        // Sedo parking
-        /parkingcrew/i,                        // ParkingCrew
-        /domain[-_]?parking/i                  // Generic domain parking
-    ],
-    // Premium domain markers
-    PREMIUM: [
-        /premium[-_]?domain/i,                 // Premium domain indicator
-        /domain[-_]?for[-_]?sale/i,            // For sale marker
-        /inquire.*purchase/i,                  // Purchase inquiry
-        /domainbroker/i,                       // Domain broker reference
-        /reserve[d]?[-_]?domain/i              // Reserved domain
-    ],
-    // Active domain usage signals
-    ACTIVE_USAGE: [
-        /google-site-verification=/i,          // Google site verification
-        /ms=ms\d+/i,                           // Microsoft verification
-        /facebook-domain-verification=/i,      // Facebook domain verification
-        /apple-domain-verification=/i,         // Apple domain verification
-        /docusign=.+/i,                        // DocuSign verification
-        /stripe-verification=/i                // Stripe verification
-    ]
-};
+// Large sweeps check this many domains at once and queue the rest; each domain sends 5-7 queries
+const MAX_CONCURRENT_DOMAINS = 8
+
+// Per-provider request rate, unless the provider sets its own
+const DEFAULT_PROVIDER_RATE_LIMIT: TokenBucketOptions = { requestsPerSecond: 20, burst: 40 }
+// Most workers a check spreads its domains over
+const MAX_WORKERS = 4
+
+// EDNS options sent with every query: pad wire-format queries (RFC 8467), opt out of EDNS Client Subnet
+// and request DNSSEC records (DO) so responses can be validated locally
+const EDNS_OPTIONS: EdnsOptions = {
+  paddingBlockSize: 128,
+  suppressClientSubnet: true,
+  dnssecOk: true
+}
 
 // --- Enums and Types (Existing) ---
 export enum DomainAvailabilityStatus {
@@ -228,6 +74,27 @@ export enum DomainAvailabilityStatus {
   ERROR = 'error'              // Network error, DNS error (SERVFAIL), timeout
 }
 
+// How long a cached result stays fresh: a free name can be taken any minute, a registered one rarely lapses.
+// Errors are not cached.
+const RESULT_CACHE_TTL: Record<Exclude<DomainAvailabilityStatus, DomainAvailabilityStatus.ERROR>, number> = {
+  [DomainAvailabilityStatus.AVAILABLE]: 10 * 60 * 1000,
+  [DomainAvailabilityStatus.INDETERMINATE]: 10 * 60 * 1000,
+  [DomainAvailabilityStatus.PREMIUM]: 6 * 60 * 60 * 1000,
+  [DomainAvailabilityStatus.REGISTERED]: 24 * 60 * 60 * 1000
+}
+
+// Bumped whenever DomainResult changes shape, so results cached by older versions aren't shown
+const RESULT_CACHE_FORMAT = 4
+
+// The status of each verdict the scoring can reach
+const VERDICT_STATUSES: Record<VerdictStatus, DomainAvailabilityStatus> = {
+  available: DomainAvailabilityStatus.AVAILABLE,
+  registered: DomainAvailabilityStatus.REGISTERED,
+  premium: DomainAvailabilityStatus.PREMIUM,
+  indeterminate: DomainAvailabilityStatus.INDETERMINATE,
+  error: DomainAvailabilityStatus.ERROR
+}
+
 // Human-readable status messages for UI display
 export const statusMessages = {
   [DomainAvailabilityStatus.AVAILABLE]: 'Available',
@@ -259,6 +126,14 @@ export const stageMessages = {
   [CheckStage.COMPLETE]: 'Check complete'
 }
 
+// How far through a domain's check each stage starts, for the overall percentage; also the order stages run in
+const STAGE_PROGRESS: Partial<Record<CheckStage, number>> = {
+  [CheckStage.WILDCARD_CHECK]: 0.05,
+  [CheckStage.PRIMARY_QUERY]: 0.2,
+  [CheckStage.FALLBACK_QUERY]: 0.6,
+  [CheckStage.ANALYZING]: 0.85
+}
+
 // Error categories for more meaningful error reporting
 export enum ErrorCategory {
   NETWORK = 'network',
@@ -274,31 +149,94 @@ export interface ProgressState {
   stage: CheckStage,
   domainsProcessed: number,
   totalDomains: number,
-  detailedMessage?: string
+  detailedMessage?: string,
+  domainsQueued?: number, // Waiting for a free slot under the concurrency cap
+  queriesRateLimited?: number, // Queries waiting for a provider's rate limit
+  activeStages?: Partial<Record<CheckStage, number>>, // How many domains are in each stage right now
+  queriesInFlight?: number // Queries sent and not yet answered
+}
+
+// Emitted by the checking pipeline as each stage of a domain's check, and each query attempt, starts and ends
+export interface CheckEvent {
+  type: 'stage-start' | 'stage-end' | 'query-start' | 'query-end',
+  domain: string,
+  stage: CheckStage,
+  at: number, // ms since the epoch
+  provider?: string, // Query events only
+  queryType?: string, // Query events only, e.g. 'NS'
+  attempt?: number, // Query events only
+  durationMs?: number, // End events only
+  outcome?: string // query-end only: the DNS status, or why the attempt failed
 }
 
-interface DomainResult {
+// One stage or query attempt of a domain's check
+export interface TimelineEntry {
+  stage: CheckStage,
+  provider?: string, // Set for query attempts, unset for the stage itself
+  queryType?: string,
+  attempt?: number,
+  startMs: number, // Since the domain's check started
+  durationMs: number,
+  outcome?: string
+}
+
+export interface DomainResult {
   domain: string
   status: DomainAvailabilityStatus
+  confidence: number // How sure the status is, from 0 (a coin flip) to 100
   error: boolean
   errorCategory?: ErrorCategory
   errorMessage?: string
   link: string
-  confidenceReasons: string[]
-  dnssecValidated?: boolean
+  evidence: Evidence[] // Every signal found, the query attempts, and how they were weighed into the status
+  dnssecValidated?: boolean // DNSSEC chain of trust verified locally
+  dnssecStatus?: DnssecStatus
+  resolverClaimedAd?: boolean // At least one resolver set the AD flag (its word, not verified by us)
+  denialProof?: DenialProof // NSEC/NSEC3 proof checked for a validated NXDOMAIN
   wildcardDetected?: boolean
   isParkedByNs: boolean
   isParkedByTxt: boolean
+  parkingService?: string // Who the domain is parked with, e.g. "Sedo"
+  timeline?: TimelineEntry[] // Every stage and query attempt of the check, in the order they started
+  cachedAt?: number // Set when served from the result cache: when the domain was actually checked
+  revalidating?: boolean // A stale cached result shown while the domain is checked again
 }
 
+// Results of every check, by domain, persisted across reloads and shared between tabs
+export const sharedResultCache = new ResultCache<DomainResult>()
+
 // Update DoHJsonResponse to extend the DnsResponse interface
 interface DoHJsonResponse extends DnsResponse {
   // Keep any additional properties specific to this implementation
+  answeredBy?: string // Name of the provider that answered, which differs from the one asked after a failover
 }
 
-interface CacheEntry {
-  results: DomainResult[]
-  timestamp: number
+// The outcome of one query to one provider, as interpreted for the verdict
+type ProviderQueryResult =
+  { status: 'fulfilled', value: DoHJsonResponse, provider: string, queryType: number } |
+  { status: 'rejected', reason: Error, provider: string, queryType: number, errorCategory?: ErrorCategory, errorMessage?: string, suggestsDomainExists?: boolean }
+
+// Identifies an evidence source's question, so each is asked once however many sources ask it
+const getQueryKey = (query: Required<EvidenceQuery>): string => `${query.scope}:${query.name}:${query.type}`
+
+// Shared by all queries for one domain: the time budget left, a log of every attempt for the evidence,
+// and the timeline and events of its stages
+interface QueryContext {
+  domain: string
+  startedAt: number
+  stage: CheckStage // The stage running, which queries are attributed to
+  timeline: TimelineEntry[]
+  onEvent?: (event: CheckEvent) => void
+  deadline: number
+  attempts: Evidence[] // Every query attempt, retry and failover
+  primaryUrls: string[] // The primaries chosen for this domain, which failovers avoid
+  signal?: AbortSignal // Stops every query and wait of the check
+}
+
+// A provider's health as shown in the UI
+export interface ProviderHealthEntry extends ProviderHealthSnapshot {
+  name: string
+  isPrimary: boolean
 }
 
 interface GroupedResults {
@@ -309,50 +247,45 @@ interface GroupedResults {
 }
 
 // --- Provider Configuration ---
-// Define provider configurations in a structured way
+// Providers come from the registry (built-ins plus user-added ones, see utils/ProviderRegistry.ts)
 interface ProviderConfig {
+  id: string;
   name: string;
   baseUrl: string;
-  formatUrl: (baseUrl: string, domain: string, type: number) => string;
   headers: Record<string, string>;
+  role: ProviderRole;
+  // How queries reach the provider; plain HTTPS to baseUrl when unset. ObliviousDohTransport (RFC 9230) relays
+  // encrypted queries through '/api/odoh-proxy', served by this app, so the resolver never sees our IP.
+  // SocketTransport (DNS over TLS/TCP) only works where raw sockets exist, i.e. on the Worker or in Node.
+  transport?: DnsTransport;
+  // Overrides of the app-wide retry policy for this provider (e.g. fewer attempts for a strict rate limiter)
+  retryPolicy?: RetryPolicyOptions;
+  // Token bucket limiting the queries sent to this provider; DEFAULT_PROVIDER_RATE_LIMIT when unset
+  rateLimit?: TokenBucketOptions;
 }
 
-const PROVIDERS: Record<string, ProviderConfig> = {
-  'cloudflare': {
-    name: 'Cloudflare',
-    baseUrl: 'https://cloudflare-dns.com/dns-query',
-    formatUrl: (baseUrl, domain, type) =>
-      `${baseUrl}?name=${encodeURIComponent(domain)}&type=${type}`,
-    headers: { 'Accept': 'application/dns-json' }
-  },
-  'quad9': {
-    name: 'Quad9',
-    baseUrl: 'https://dns.quad9.net:5053/dns-query',
-    formatUrl: (baseUrl, domain, type) =>
-      `${baseUrl}?name=${encodeURIComponent(domain)}&type=${type}`,
-    headers: { 'Accept': 'application/dns-json' }
-  },
-  'google': {
-    name: 'Google',
-    baseUrl: 'https://dns.google/resolve',
-    formatUrl: (baseUrl, domain, type) =>
-      `${baseUrl}?name=${encodeURIComponent(domain)}&type=${type}`,
-    headers: { 'Accept': 'application/dns-json' }
-  }
-};
-
-const DOH_PROVIDER_URLS = Object.values(PROVIDERS).map(p => p.baseUrl);
-
-// Define primary providers for consensus checking (first 2 providers)
-// These are the providers we trust most for determining domain status
-const PRIMARY_PROVIDER_URLS = [
-  PROVIDERS.cloudflare.baseUrl,
-  PROVIDERS.google.baseUrl
-];
+const toProviderConfig = (entry: ProviderEntry): ProviderConfig => ({
+  id: entry.id,
+  name: entry.name,
+  baseUrl: entry.url,
+  headers: getProviderHeaders(entry),
+  role: entry.role,
+  transport: getProviderTransport(entry)
+})
+
+// Enabled providers, primaries first. Registry order breaks ties in health ranking,
+// so the registry's first primaries answer the consensus queries until measurements say otherwise.
+const getProviderConfigs = (): ProviderConfig[] => {
+  const enabled = sharedProviderRegistry.list().filter(entry => entry.role !== 'disabled')
+  return [...enabled.filter(entry => entry.role === 'primary'), ...enabled.filter(entry => entry.role === 'fallback')].map(toProviderConfig)
+}
+const getProviderUrls = (): string[] => getProviderConfigs().map(config => config.baseUrl)
+const PRIMARY_PROVIDER_COUNT = 2
 
-// Helper to get config based on URL (more robust than string includes)
+// Helper to get config based on URL (exact match, as custom endpoints may share a prefix)
 const getProviderConfigFromUrl = (url: string): ProviderConfig | undefined => {
-  return Object.values(PROVIDERS).find(p => url.startsWith(p.baseUrl));
+  const entry = sharedProviderRegistry.list().find(e => e.url === url)
+  return entry && toProviderConfig(entry)
 };
 
 // DNS Status codes and their meanings (Used in logging/reasoning)
@@ -365,13 +298,30 @@ const DNS_STATUS_MESSAGES: Record<number, string> = {
   [DNS_STATUS_REFUSED]: 'REFUSED (Query Refused)',
 };
 
+export type DnsSessionMode = 'live' | 'recording' | 'replaying'
+
 // --- Hardcoded Heuristic Lists for isLikelyRegistered ---
 // Note: These are simple heuristics, not exhaustive.
 // REMOVED: const KNOWN_REGISTERED_DOMAINS = new Set([...]);
 // REMOVED: const KNOWN_AGED_DOMAINS = new Set([...]);
 
-export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
+export const useDomainCheck = (options: {
+  useWorkers?: boolean,
+  retryPolicy?: RetryPolicyOptions,
+  maxConcurrentDomains?: number,
+  consensusPolicy?: ConsensusPreset | Partial<ConsensusPolicy>,
+  onCheckEvent?: (event: CheckEvent) => void, // Every stage and query of every domain as it starts and ends
+  onResult?: (result: DomainResult) => void, // Every domain's result as soon as it's in
+  workerCount?: number, // Size of the worker pool; defaults to the spare CPU cores, at most MAX_WORKERS
+  rateLimitShare?: number, // The share of each provider's rate limit this instance may use, e.g. in one of several workers
+  resultCache?: ResultCache<DomainResult> | null, // Where results are cached by domain; null checks every domain afresh
+  scoringRules?: ScoringRule[], // How evidence is weighed into the verdict; defaults to DEFAULT_SCORING_RULES
+  scoringThresholds?: Partial<ScoringThresholds>, // The confidence an available or registered verdict needs
+  evidenceSources?: EvidenceSource[] // Where signals come from besides the NS answers; defaults to BUILTIN_EVIDENCE_SOURCES
+} = {}) => {
   const results = reactive<DomainResult[]>([])
+  // Domains of the running check that have no result yet, in check order
+  const pendingDomains = ref<string[]>([])
   const progress = ref<ProgressState>({
     percentage: 0,
     stage: CheckStage.PREPARING,
@@ -379,9 +329,144 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
     totalDomains: 0
   })
   const isChecking = ref(false)
-  const cache = ref<Record<string, CacheEntry>>({})
-  let currentProviderIndex = 0
-  let worker: Worker | null = null
+  const resultCache = options.resultCache !== undefined ? options.resultCache : sharedResultCache
+  // Worker pool, created on the first worker check and kept for the next
+  let workers: Worker[] = []
+  let nextJobId = 0
+
+  // Retries, backoff, per-domain deadline and failover; providers may override parts of it
+  const retryPolicy = mergeRetryPolicy(DEFAULT_RETRY_POLICY, options.retryPolicy)
+  const getRetryPolicy = (config: ProviderConfig): RetryPolicy => mergeRetryPolicy(retryPolicy, config.retryPolicy)
+
+  // Scheduling: a cap on domains checked at once, and a token bucket per provider shared by all checks
+  let domainLimiter: ConcurrencyLimiter | null = null
+  const providerBuckets = new Map<string, TokenBucket>()
+
+  // Show queued work in progress as it changes
+  const updateQueueProgress = () => {
+    progress.value = {
+      ...progress.value,
+      domainsQueued: domainLimiter?.queued ?? 0,
+      queriesRateLimited: [...providerBuckets.values()].reduce((sum, bucket) => sum + bucket.waiting, 0)
+    }
+  }
+
+  const getProviderBucket = (config: ProviderConfig): TokenBucket => {
+    let bucket = providerBuckets.get(config.baseUrl)
+    if (!bucket) {
+      const { requestsPerSecond, burst } = config.rateLimit ?? DEFAULT_PROVIDER_RATE_LIMIT
+      const share = options.rateLimitShare ?? 1
+      bucket = new TokenBucket({ requestsPerSecond: requestsPerSecond * share, burst: Math.max(1, Math.floor(burst * share)) }, updateQueueProgress)
+      providerBuckets.set(config.baseUrl, bucket)
+    }
+    return bucket
+  }
+
+  // Record/replay of DNS sessions: while recording every query is captured, while replaying
+  // answers come from the loaded fixture. Both bypass the caches so each query is seen.
+  const dnsSessionMode = ref<DnsSessionMode>('live')
+  let dnsRecorder: DnsRecorder | null = null
+  let dnsReplayer: DnsReplayer | null = null
+
+  // Latency, error rate and timeouts per provider, with a circuit breaker; replayed answers aren't measured
+  const providerHealth = ref<ProviderHealthEntry[]>([])
+  const refreshProviderHealth = () => {
+    const primaryUrls = selectPrimaryProviderUrls()
+    providerHealth.value = getProviderUrls().map(url => ({
+      ...healthTracker.getSnapshot(url),
+      name: getProviderConfigFromUrl(url)?.name ?? url,
+      isPrimary: primaryUrls.includes(url)
+    }))
+  }
+  const healthTracker = new ProviderHealthTracker({}, refreshProviderHealth)
+
+  // How much agreement a verdict needs; a preset name or a custom policy
+  const consensusPolicy = ref<ConsensusPolicy>(resolveConsensusPolicy(options.consensusPolicy))
+  const setConsensusPolicy = (policy: ConsensusPreset | Partial<ConsensusPolicy>) => {
+    consensusPolicy.value = resolveConsensusPolicy(policy)
+    refreshProviderHealth()
+  }
+
+  // How evidence is weighed into a verdict, and the confidence each status needs
+  const scoringRules = options.scoringRules ?? DEFAULT_SCORING_RULES
+  const scoringThresholds: ScoringThresholds = { ...DEFAULT_SCORING_THRESHOLDS, ...options.scoringThresholds }
+  // The wildcard probe, the parking heuristics and any sources of the app's own
+  const evidenceSources = options.evidenceSources ?? BUILTIN_EVIDENCE_SOURCES
+
+  // The policy's primary set if it names one, otherwise the healthiest providers marked primary answer the
+  // consensus queries, topped up with the healthiest fallbacks when too few primaries are up
+  const selectPrimaryProviderUrls = (): string[] => {
+    const { primaryProviders } = consensusPolicy.value
+    if (primaryProviders !== 'auto') {
+      return primaryProviders.map(id => sharedProviderRegistry.get(id)?.url).filter((url): url is string => url !== undefined)
+    }
+    const configs = getProviderConfigs()
+    const ranked = [
+      ...healthTracker.rank(configs.filter(config => config.role === 'primary').map(config => config.baseUrl)),
+      ...healthTracker.rank(configs.filter(config => config.role === 'fallback').map(config => config.baseUrl))
+    ]
+    const available = ranked.filter(url => healthTracker.canRequest(url))
+    return [...available, ...ranked.filter(url => !available.includes(url))].slice(0, PRIMARY_PROVIDER_COUNT)
+  }
+  refreshProviderHealth()
+
+  const createResolver = (config: ProviderConfig): DohResolver => {
+    const transport = config.transport ?? new HttpsTransport(config.baseUrl, 'GET', config.headers)
+    if (dnsReplayer) {
+      return new DohResolver(config.baseUrl, null, new ReplayTransport(dnsReplayer, transport.id))
+    }
+    const tracked = new HealthTrackingTransport(transport, healthTracker, config.baseUrl)
+    if (dnsRecorder) {
+      return new DohResolver(config.baseUrl, null, new RecordingTransport(tracked, dnsRecorder))
+    }
+    return new DohResolver(config.baseUrl, sharedDnsCache, tracked)
+  }
+
+  // Local DNSSEC validator; validated zone keys are cached across checks (and reset with the session mode).
+  // Replays check signatures against the recording time, as they may have expired since.
+  const createDnssecValidator = () => {
+    const recordedAt = dnsReplayer?.fixture.recordedAt
+    const cloudflare = sharedProviderRegistry.get('cloudflare')
+    const config = cloudflare && cloudflare.role !== 'disabled' ? toProviderConfig(cloudflare) : getProviderConfigs()[0]
+    return new DnssecValidator(createResolver(config), {
+      method: 'GET',
+      headers: config.headers,
+      timeout: retryPolicy.attemptTimeoutMs,
+      now: recordedAt === undefined ? undefined : () => recordedAt
+    })
+  }
+  let dnssecValidator = createDnssecValidator()
+
+  // Providers added, removed or re-marked in the registry take effect from the next query
+  const unsubscribeRegistry = sharedProviderRegistry.subscribe(() => {
+    refreshProviderHealth()
+    dnssecValidator = createDnssecValidator()
+  })
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribeRegistry)
+  }
+
+  const setDnsSession = (mode: DnsSessionMode, recorder: DnsRecorder | null, replayer: DnsReplayer | null) => {
+    dnsRecorder = recorder
+    dnsReplayer = replayer
+    dnsSessionMode.value = mode
+    dnssecValidator = createDnssecValidator()
+  }
+
+  // Start capturing every DNS query and response
+  const startRecording = () => setDnsSession('recording', new DnsRecorder(), null)
+
+  // Stop capturing and return the session as a fixture (null if nothing was being recorded)
+  const stopRecording = (): DnsFixture | null => {
+    const fixture = dnsRecorder?.toFixture() ?? null
+    setDnsSession('live', null, null)
+    return fixture
+  }
+
+  // Serve all DNS queries from a recorded fixture, without network access
+  const startReplay = (fixture: DnsFixture) => setDnsSession('replaying', null, new DnsReplayer(fixture, { matchName: matchWildcardProbe }))
+
+  const stopReplay = () => setDnsSession('live', null, null)
 
   const { useWorkers = false } = options
 
@@ -392,26 +477,163 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
     other: results.filter(result => result.status === DomainAvailabilityStatus.INDETERMINATE || result.status === DomainAvailabilityStatus.ERROR)
   }))
 
-  const getNextProviderUrl = () => {
-    const providerUrl = DOH_PROVIDER_URLS[currentProviderIndex]
-    currentProviderIndex = (currentProviderIndex + 1) % DOH_PROVIDER_URLS.length
-    return providerUrl
+  // Wildcard probes go to a random healthy provider, weighted by speed and reliability, to spread the load
+  const selectProbeProviderUrl = (): string => healthTracker.choose(getProviderUrls()) ?? getProviderUrls()[0]
+
+  // Add a finished domain's result as soon as it's in, keeping results in check order rather than completion order.
+  // A fresh result replaces the stale cached one shown meanwhile.
+  const addResult = (result: DomainResult, order: string[]) => {
+    const existing = results.findIndex(shown => shown.domain === result.domain)
+    if (existing !== -1) results.splice(existing, 1)
+    const position = order.indexOf(result.domain)
+    const index = results.findIndex(existing => order.indexOf(existing.domain) > position)
+    results.splice(index === -1 ? results.length : index, 0, result)
+    pendingDomains.value = pendingDomains.value.filter(domain => domain !== result.domain)
+    options.onResult?.(result)
   }
 
-  // Cleanup worker on component unmount or before creating a new one
-  const cleanupWorker = () => {
-    if (worker) {
-      worker.terminate()
-      worker = null
+  // Cached verdicts only hold under the policy, providers, evidence sources and scoring they were reached with
+  const getResultCacheVariant = () => [
+    RESULT_CACHE_FORMAT,
+    JSON.stringify(consensusPolicy.value),
+    getProviderUrls().join(','),
+    scoringRules.map(rule => rule.id).join(','),
+    evidenceSources.map(source => source.id).join(','),
+    `${scoringThresholds.registered}/${scoringThresholds.available}`
+  ].join(':')
+
+  // Show the cached results of a check's domains at once: fresh ones as they are, stale ones marked for
+  // re-verification. Recorded and replayed sessions always run the queries.
+  // Returns the domains that need checking, the stale ones included
+  const serveCachedResults = async (checkedDomains: string[], variant: string): Promise<string[]> => {
+    if (!resultCache || dnsSessionMode.value !== 'live') return checkedDomains
+
+    const hits = await Promise.all(checkedDomains.map(domain => resultCache.get(domain, variant)))
+    const toCheck: string[] = []
+    hits.forEach((hit, index) => {
+      if (hit) {
+        addResult({ ...hit.result, cachedAt: hit.checkedAt, revalidating: hit.stale || undefined }, checkedDomains)
+      }
+      if (!hit || hit.stale) toCheck.push(checkedDomains[index])
+    })
+    console.info(`[Domain Check] ${checkedDomains.length - toCheck.length} of ${checkedDomains.length} results served from the cache, ${hits.filter(hit => hit?.stale).length} stale`)
+    return toCheck
+  }
+
+  // Cache a freshly checked domain; replayed results must not be served to later live checks
+  const storeResult = (result: DomainResult, variant: string) => {
+    if (!resultCache || dnsSessionMode.value === 'replaying' || result.status === DomainAvailabilityStatus.ERROR) return
+    const { cachedAt, revalidating, ...checked } = result
+    void resultCache.set(result.domain, variant, JSON.parse(JSON.stringify(checked)), RESULT_CACHE_TTL[result.status])
+  }
+
+  // A stopped check leaves its stale results unverified
+  const endRevalidation = () => {
+    results.forEach(result => { delete result.revalidating })
+  }
+
+  // Another tab re-verified a domain shown from the cache here: show its newer result
+  if (resultCache) {
+    const unsubscribeResultCache = resultCache.subscribe(async domain => {
+      const shown = results.find(result => result.domain === domain)
+      if (!domain || shown?.cachedAt === undefined || shown.revalidating) return
+      const hit = await resultCache.get(domain, getResultCacheVariant())
+      if (!hit || hit.checkedAt <= shown.cachedAt) return
+      const index = results.findIndex(result => result.domain === domain)
+      if (index !== -1) results.splice(index, 1, { ...hit.result, cachedAt: hit.checkedAt })
+    })
+    if (getCurrentScope()) {
+      onScopeDispose(unsubscribeResultCache)
     }
   }
 
+  // Terminate the worker pool; a broken worker takes the whole pool with it
+  const cleanupWorkers = () => {
+    workers.forEach(worker => worker.terminate())
+    workers = []
+  }
+  if (useWorkers && getCurrentScope()) {
+    onScopeDispose(cleanupWorkers)
+  }
+
+  const getWorkers = (count: number): Worker[] => {
+    while (workers.length < count) {
+      workers.push(new Worker(new URL('./domainCheck.worker.ts', import.meta.url), { type: 'module' }))
+    }
+    return workers.slice(0, count)
+  }
+
+  // Aggregates the events of concurrently checked domains into the progress state: the share of the work done,
+  // how many domains are in each stage, and the queries in flight
+  const createProgressTracker = (totalDomains: number) => {
+    let processedDomains = 0
+
+    // Where each running domain's check has got to, from the events its pipeline emits
+    const domainStages = new Map<string, CheckStage>()
+    const domainFractions = new Map<string, number>()
+    let queriesInFlight = 0
+
+    const updateCheckProgress = (currentDomain: string, detailedMessage?: string) => {
+      const activeStages: Partial<Record<CheckStage, number>> = {}
+      domainStages.forEach(stage => { activeStages[stage] = (activeStages[stage] ?? 0) + 1 })
+      // The stage most running domains are in; later stages win ties
+      let stage = processedDomains === totalDomains ? CheckStage.FINALIZING : CheckStage.PREPARING
+      for (const candidate of Object.keys(STAGE_PROGRESS) as CheckStage[]) {
+        if ((activeStages[candidate] ?? 0) > 0 && (activeStages[candidate] ?? 0) >= (activeStages[stage] ?? 0)) stage = candidate
+      }
+      const fractions = [...domainFractions.values()].reduce((sum, fraction) => sum + fraction, 0)
+      progress.value = {
+        ...progress.value,
+        percentage: (fractions / totalDomains) * 100,
+        domainsProcessed: processedDomains,
+        currentDomain,
+        stage,
+        activeStages,
+        queriesInFlight,
+        detailedMessage: detailedMessage ?? progress.value.detailedMessage
+      }
+    }
+
+    const handleCheckEvent = (event: CheckEvent) => {
+      const attempt = event.attempt && event.attempt > 1 ? ` (attempt ${event.attempt})` : ''
+      switch (event.type) {
+        case 'stage-start':
+          domainStages.set(event.domain, event.stage)
+          domainFractions.set(event.domain, Math.max(domainFractions.get(event.domain) ?? 0, STAGE_PROGRESS[event.stage] ?? 0))
+          updateCheckProgress(event.domain, `${stageMessages[event.stage]} (${event.domain})`)
+          break
+        case 'query-start':
+          queriesInFlight++
+          updateCheckProgress(event.domain, `Asking ${event.provider} for the ${event.queryType} records of ${event.domain}${attempt}`)
+          break
+        case 'query-end':
+          queriesInFlight--
+          updateCheckProgress(event.domain, `${event.provider} ${event.queryType} for ${event.domain}${attempt}: ${event.outcome} in ${event.durationMs}ms`)
+          break
+      }
+      options.onCheckEvent?.(event)
+    }
+
+    // A finished domain counts in full and leaves the stage counts
+    const finishDomain = (fullDomain: string, detailedMessage: string) => {
+      processedDomains++
+      domainStages.delete(fullDomain)
+      domainFractions.set(fullDomain, 1)
+      updateCheckProgress(fullDomain, detailedMessage)
+    }
+
+    return { handleCheckEvent, finishDomain }
+  }
+
   // Main entry point that decides between standard and worker implementation
-  const checkDomains = async (domainName: string, selectedTLDs: string[]) => {
-    if (useWorkers && typeof Worker !== 'undefined') {
-      return checkDomainsWithWorker(domainName, selectedTLDs)
+  // Aborting the signal stops the check; the domains completed by then are kept as its results
+  const checkDomains = async (domainName: string, selectedTLDs: string[], signal?: AbortSignal) => {
+    // Sessions are recorded and replayed on the main thread, where the resolvers live;
+    // custom scoring rules and evidence sources are functions, which can't be sent to a worker
+    if (useWorkers && typeof Worker !== 'undefined' && dnsSessionMode.value === 'live' && !options.scoringRules && !options.evidenceSources) {
+      return checkDomainsWithWorker(domainName, selectedTLDs, signal)
     } else {
-      return checkDomainsStandard(domainName, selectedTLDs)
+      return checkDomainsStandard(domainName, selectedTLDs, signal)
     }
   }
 
@@ -425,39 +647,42 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
     let message = 'An unknown error occurred'
     let suggestsDomainExists = false
     
-    // Basic Error Classification
-    if (error.name === 'AbortError' || error.message.toLowerCase().includes('timeout')) {
+    // Classify by the error types the resolver throws
+    if (error instanceof DohTimeoutError) {
       category = ErrorCategory.TIMEOUT
       message = 'DNS request timed out'
       // Timeouts can happen for various reasons, might weakly suggest a complex/slow setup (registered)
       suggestsDomainExists = true
-    } else if (error instanceof TypeError && (error.message.includes('NetworkError') || error.message.includes('fetch'))) {
+    } else if (error instanceof DohNetworkError) {
       // Network errors usually mean connectivity issues, not related to domain status
       category = ErrorCategory.NETWORK
       message = 'Network connection issue'
       suggestsDomainExists = false
-    } else if (error.message.includes('status')) { // Likely an HTTP error from fetch
+    } else if (error instanceof DohHttpError) {
+      // HTTP failures are about the DoH provider, not the domain; a resolver that failed to resolve
+      // the domain answers 200 with a SERVFAIL status, which is interpreted separately
       category = ErrorCategory.DNS_ERROR
-      const statusMatch = error.message.match(/status (\d+)/)
-      const httpStatus = statusMatch ? parseInt(statusMatch[1], 10) : null
-
-      if (httpStatus && [500, 502, 503, 504].includes(httpStatus)) {
-        message = `DoH provider server error (${httpStatus})`
-        // Server errors *might* correlate slightly with complex/problematic DNS for registered domains
-        suggestsDomainExists = true
-      } else if (httpStatus) {
-        message = `DoH query failed with HTTP ${httpStatus}`
-         // Other client/server HTTP errors don't strongly suggest registered/unregistered
-        suggestsDomainExists = false
+      if (error.status === 429) {
+        message = 'DoH provider rate limit reached (429)'
+      } else if (error.status >= 500) {
+        message = `DoH provider server error (${error.status})`
       } else {
-        message = 'DoH server error (Unknown Status)'
-         suggestsDomainExists = false
+        message = `DoH query failed with HTTP ${error.status}`
       }
-    } else if (error.message.includes('SERVFAIL') || error.message.includes('Server Failure')) {
-       // Specific handling if SERVFAIL is caught before JSON parsing
+      suggestsDomainExists = false
+    } else if (error instanceof DohParseError) {
       category = ErrorCategory.DNS_ERROR
-      message = 'DNS server failed to process the query (SERVFAIL)'
-      suggestsDomainExists = true // SERVFAIL often happens with registered domains
+      message = `Unreadable DoH response: ${error.message}`
+      suggestsDomainExists = false
+    } else if (error instanceof MethodNotAllowedError || error instanceof DnsTransportUnavailableError) {
+      // Configuration problems say nothing about the domain
+      category = ErrorCategory.UNKNOWN
+      message = error.message
+      suggestsDomainExists = false
+    } else if (error instanceof DnsReplayMissError) {
+      category = ErrorCategory.DNS_ERROR
+      message = error.message
+      suggestsDomainExists = false
     } else {
        // Default to unknown DNS error if not classified above
        category = ErrorCategory.DNS_ERROR
@@ -474,103 +699,155 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
     return { category, message, suggestsDomainExists }
   }
 
-  const fetchDnsJson = async (providerUrl: string, domain: string, recordType: number): Promise<DoHJsonResponse> => {
-    const config = getProviderConfigFromUrl(providerUrl);
-    if (!config) {
-      // Should not happen if providerUrl comes from DOH_PROVIDER_URLS
-      throw new Error(`Configuration error: Unknown DNS provider URL: ${providerUrl}`);
+  // Run one stage of a domain's check, reporting when it starts and ends and adding it to the timeline
+  const runStage = async <T>(context: QueryContext, stage: CheckStage, task: () => Promise<T>): Promise<T> => {
+    const started = Date.now();
+    context.stage = stage;
+    context.onEvent?.({ type: 'stage-start', domain: context.domain, stage, at: started });
+    try {
+      return await task();
+    } finally {
+      const durationMs = Date.now() - started;
+      context.timeline.push({ stage, startMs: started - context.startedAt, durationMs });
+      context.onEvent?.({ type: 'stage-end', domain: context.domain, stage, at: started + durationMs, durationMs });
     }
-    
-    let attempts = 0;
-    let lastError: Error | null = null;
+  }
+
+  // Query one provider, retrying transient failures as its retry policy allows
+  const queryWithRetries = async (config: ProviderConfig, domain: string, recordType: number, context: QueryContext): Promise<DoHJsonResponse> => {
+    const policy = getRetryPolicy(config);
+    const label = `${config.name} ${recordTypeName(recordType)}`;
+    const query = { provider: config.name, queryType: recordTypeName(recordType) };
+
+    // Every attempt is reported, and lands on the timeline, once it has an outcome
+    const endAttempt = (attempt: number, started: number, outcome: string) => {
+      const durationMs = Date.now() - started;
+      context.timeline.push({ stage: context.stage, ...query, attempt, startMs: started - context.startedAt, durationMs, outcome });
+      context.onEvent?.({ type: 'query-end', domain: context.domain, stage: context.stage, ...query, attempt, at: started + durationMs, durationMs, outcome });
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      context.signal?.throwIfAborted();
+      const remainingMs = context.deadline - Date.now();
+      if (remainingMs <= 0) {
+        context.attempts.push(createEvidence('query-attempt', 'neutral', { ...query, detail: `not attempted, domain deadline of ${retryPolicy.deadlineMs}ms reached` }));
+        throw new DohTimeoutError(`${config.name} for ${domain}`, retryPolicy.deadlineMs);
+      }
 
-    while (attempts <= MAX_RETRIES) {
+      // Waiting for the provider's rate limit counts against the deadline, but not as the attempt's time
+      await getProviderBucket(config).take(context.signal);
+      const started = Date.now();
+      context.onEvent?.({ type: 'query-start', domain: context.domain, stage: context.stage, ...query, attempt, at: started });
       try {
-        // Create a DohResolver instance
-        const resolver = new DohResolver(config.baseUrl);
-        
-        // Convert numeric record type to string if needed for readability in logs
-        let recordTypeStr: string;
-        switch (recordType) {
-          case DNS_RECORD_TYPE_NS:
-            recordTypeStr = 'NS';
-            break;
-          case DNS_RECORD_TYPE_SOA:
-            recordTypeStr = 'SOA';
-            break;
-          case DNS_RECORD_TYPE_TXT:
-            recordTypeStr = 'TXT';
-            break;
-          default:
-            recordTypeStr = recordType.toString();
-        }
-        
-        // Use the DohResolver to query the domain
-        const data = await resolver.query(
-          domain, 
-          recordType, 
-          'GET',  // Use GET method which is more compatible with DoH providers
-          config.headers, 
-          TIMEOUT_MS
+        // Use GET, which is more compatible with DoH providers; each attempt gets at most the time left
+        const data = await createResolver(config).query(
+          domain,
+          recordType,
+          'GET',
+          config.headers,
+          Math.max(1, Math.min(policy.attemptTimeoutMs, context.deadline - started)),
+          EDNS_OPTIONS,
+          context.signal
         ) as DoHJsonResponse;
+        context.attempts.push(createEvidence('query-attempt', 'neutral', { ...query, attempt, detail: `answered in ${Date.now() - started}ms` }));
+        endAttempt(attempt, started, DNS_STATUS_MESSAGES[data.Status] ?? `Status ${data.Status}`);
 
         // Add context if the DNS status code itself suggests existence
         if (ERROR_CODES_SUGGESTING_DOMAIN_EXISTS.includes(data.Status)) {
           data.Comment = `DNS server returned ${DNS_STATUS_MESSAGES[data.Status] || 'error code ' + data.Status}. This often happens with registered domains.`
         }
-        
+        data.answeredBy = config.name;
+
         return data;
       } catch (rawError) {
+        if (context.signal?.aborted) {
+          endAttempt(attempt, started, 'Stopped');
+          throw rawError;
+        }
         const error = rawError instanceof Error ? rawError : new Error(String(rawError));
-        lastError = error;
-        attempts++;
-        
-        // Determine if this is a retryable error (timeout or specific network issues)
-        const isTimeout = error instanceof DOMException && error.name === 'AbortError' || 
-                          error.message.toLowerCase().includes('timeout');
-        
-        // Check if it's a server error that might be transient
-        const isTransientServerError = error.message.includes('status') && 
-                                       /status (50[234])/.test(error.message);
-        
-        if ((isTimeout || isTransientServerError) && attempts <= MAX_RETRIES) {
-          // This is a retryable error and we haven't exceeded MAX_RETRIES
-          console.warn(`[Domain Check] Retrying query for ${domain} (${recordType}) with ${config.name} (Attempt ${attempts}/${MAX_RETRIES}) after error: ${error.message}`);
-          // Add a small delay before retry
-          await new Promise(resolve => setTimeout(resolve, 200));
-          continue;
+        endAttempt(attempt, started, error.message);
+        const decision = planRetry(policy, error, attempt, context.deadline - Date.now());
+        const failure = `failed after ${Date.now() - started}ms (${error.message})`;
+
+        if (!decision.retry) {
+          context.attempts.push(createEvidence('query-attempt', 'neutral', { ...query, attempt, detail: `${failure}; giving up, ${decision.reason}` }));
+          throw error;
         }
-        
-        // Either not retryable or exceeded max retries
-        break;
+
+        context.attempts.push(createEvidence('query-attempt', 'neutral', {
+          ...query,
+          attempt,
+          detail: `${failure}; retrying in ${decision.delayMs}ms${decision.source === 'retry-after' ? ' as asked by Retry-After' : ''}`
+        }));
+        console.warn(`[Domain Check] Retrying ${label} query for ${domain} (attempt ${attempt + 1}) in ${decision.delayMs}ms after error: ${error.message}`);
+        await waitForRetry(decision.delayMs, context.signal);
       }
     }
+  }
 
-    // If we get here, all attempts failed
-    if (lastError) {
-      throw lastError;
-    } else {
-      throw new Error('Unknown error during DNS fetch');
+  // Pick the healthiest provider not yet tried for a query, preferring ones outside the primary set so consensus stays independent
+  const getFailoverProviderUrl = (triedUrls: string[], primaryUrls: string[]): string | undefined => {
+    const untried = healthTracker.rank(getProviderUrls()).filter(url => !triedUrls.includes(url) && healthTracker.canRequest(url));
+    return untried.find(url => !primaryUrls.includes(url)) ?? untried[0];
+  }
+
+  const fetchDnsJson = async (providerUrl: string, domain: string, recordType: number, context: QueryContext): Promise<DoHJsonResponse> => {
+    const triedUrls: string[] = [];
+
+    for (let url: string | undefined = providerUrl; url; ) {
+      const config = getProviderConfigFromUrl(url);
+      if (!config) {
+        // Should not happen if providerUrl comes from the registry
+        throw new Error(`Configuration error: Unknown DNS provider URL: ${url}`);
+      }
+      triedUrls.push(url);
+
+      // Skip a provider whose circuit is open, or busy with its one trial query, unless there's no one else to ask
+      const release = healthTracker.acquire(url);
+      if (!release) {
+        const nextUrl = getFailoverProviderUrl(triedUrls, context.primaryUrls);
+        if (nextUrl) {
+          context.attempts.push(createEvidence('query-attempt', 'neutral', {
+            provider: config.name,
+            queryType: recordTypeName(recordType),
+            detail: `skipped, provider is failing (circuit open); asking ${getProviderConfigFromUrl(nextUrl)?.name ?? 'Unknown Provider'}`
+          }));
+          url = nextUrl;
+          continue;
+        }
+      }
+
+      try {
+        return await queryWithRetries(config, domain, recordType, context);
+      } catch (error) {
+        // Only transient failures are worth asking someone else about, and only with time left
+        const nextUrl = getFailoverProviderUrl(triedUrls, context.primaryUrls);
+        if (!getRetryPolicy(config).failover || !classifyRetryError(error) || !nextUrl || Date.now() >= context.deadline) {
+          throw error;
+        }
+        const nextName = getProviderConfigFromUrl(nextUrl)?.name ?? 'Unknown Provider';
+        context.attempts.push(createEvidence('query-attempt', 'neutral', { provider: config.name, queryType: recordTypeName(recordType), detail: `retries exhausted, failing over to ${nextName}` }));
+        console.warn(`[Domain Check] Failing over ${recordTypeName(recordType)} query for ${domain} from ${config.name} to ${nextName}`);
+        url = nextUrl;
+      } finally {
+        release?.();
+      }
     }
+
+    throw new Error('Unknown error during DNS fetch');
   }
 
-  // Worker-based implementation
-  const checkDomainsWithWorker = async (domainName: string, selectedTLDs: string[]) => {
-    // Sort TLDs for consistent cache key
+  // Worker-based implementation: the domains are spread over a pool of workers, each running the full pipeline
+  // with its share of the concurrency cap and provider rate limits, and streaming back events and results
+  const checkDomainsWithWorker = async (domainName: string, selectedTLDs: string[], signal?: AbortSignal) => {
+    // Sort TLDs so results come in a stable order
     const sortedTLDs = [...selectedTLDs].sort()
-    const cacheKey = `${domainName}:${sortedTLDs.join(',')}`
-    const cachedEntry = cache.value[cacheKey]
-
-    // Check cache
-    if (cachedEntry && Date.now() - cachedEntry.timestamp < 5 * 60 * 1000) { // 5 min cache
-      results.splice(0, results.length, ...cachedEntry.results)
-      console.info(`[Domain Check] Cache hit for ${domainName} with TLDs: ${sortedTLDs.join(',')}`)
-      return groupedResults.value
-    }
-    console.info(`[Domain Check] Cache miss or expired for ${domainName} with TLDs: ${sortedTLDs.join(',')}`)
+    const variant = getResultCacheVariant()
 
-    // Reset state
+    // Reset state; every domain shows as pending until its result streams in
+    const checkedDomains = sortedTLDs.map(tld => `${domainName}${tld}`)
     results.splice(0, results.length) // Clear previous results using splice for reactivity
+    pendingDomains.value = checkedDomains
     progress.value = {
       percentage: 0,
       stage: CheckStage.PREPARING,
@@ -579,137 +856,168 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
     }
     isChecking.value = true
 
-    try {
-      // Cleanup any existing worker
-      cleanupWorker()
+    const totalDomains = sortedTLDs.length
+    const { handleCheckEvent, finishDomain } = createProgressTracker(totalDomains)
 
-      // Create a new worker
-      worker = new Worker(new URL('./domainCheck.worker.ts', import.meta.url), { type: 'module' })
+    // The page serves and stores cached results; workers only see the misses and stale results
+    const domainsToCheck = await serveCachedResults(checkedDomains, variant)
+    checkedDomains
+      .filter(domain => !domainsToCheck.includes(domain))
+      .forEach(domain => finishDomain(domain, `Cached result for ${domain}`))
+    const tldsToCheck = sortedTLDs.filter((_, index) => domainsToCheck.includes(checkedDomains[index]))
 
-      return new Promise<GroupedResults>((resolve, reject) => {
-        if (!worker) {
-          isChecking.value = false
-          reject(new Error('Worker creation failed'))
-          return
+    try {
+      const defaultCount = Math.min(MAX_WORKERS, Math.max(1, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1))
+      const pool = getWorkers(Math.max(0, Math.min(options.workerCount ?? defaultCount, tldsToCheck.length)))
+
+      // Round-robin, so every worker gets a similar mix of TLDs
+      const shards = pool.map((_, index) => tldsToCheck.filter((_, tldIndex) => tldIndex % pool.length === index))
+      const jobs = pool.map(() => ++nextJobId)
+
+      return await new Promise<GroupedResults>((resolve, reject) => {
+        let remaining = pool.length
+
+        const detach = () => {
+          signal?.removeEventListener('abort', stop)
+          pool.forEach(worker => {
+            worker.onmessage = null
+            worker.onerror = null
+          })
         }
 
-        // Handle messages from the worker
-        worker.onmessage = (event) => {
-          const data = event.data as {
-            type: 'progress' | 'result' | 'error';
-            progress?: number;
-            progressState?: Partial<ProgressState>;
-            results?: DomainResult[];
-            message?: string;
-            domain?: string;
-          };
-
-          switch (data.type) {
-            case 'progress':
-              if (data.progressState) {
-                // Update the progress state with the worker's progress info
-                progress.value = {
-                  ...progress.value,
-                  ...data.progressState,
-                }
-              } else if (typeof data.progress === 'number') {
-                // Legacy support for older worker implementation
-                progress.value = {
-                  ...progress.value,
-                  percentage: data.progress,
-                  currentDomain: data.domain
-                };
-              }
-              break;
-            case 'result':
-              if (Array.isArray(data.results)) {
-                // Update the results array
-                results.splice(0, results.length, ...data.results);
-                
-                // Cache the results
-                cache.value[cacheKey] = {
-                  results: JSON.parse(JSON.stringify(data.results)),
-                  timestamp: Date.now()
-                };
+        const finish = () => {
+          detach()
+          domainLimiter = null
+          pendingDomains.value = []
+          const completed = results.filter(result => !result.revalidating).length
+          endRevalidation()
+          progress.value = signal?.aborted
+            ? {
+                percentage: (completed / totalDomains) * 100,
+                stage: CheckStage.COMPLETE,
+                domainsProcessed: completed,
+                totalDomains,
+                detailedMessage: `Check stopped after ${completed} of ${totalDomains} domains`
               }
-              
-              // Set final progress state
-              progress.value = {
+            : {
                 percentage: 100,
                 stage: CheckStage.COMPLETE,
-                domainsProcessed: sortedTLDs.length,
-                totalDomains: sortedTLDs.length,
+                domainsProcessed: totalDomains,
+                totalDomains,
                 detailedMessage: 'All domain checks complete'
-              };
-              
-              isChecking.value = false;
-              
-              // Clean up worker
-              cleanupWorker();
-              
-              // Return the results
-              resolve(groupedResults.value);
-              break;
-            case 'error':
-              console.error(`[Domain Check Worker] ${data.message || 'Unknown error'}`);
-              
-              // If it's a per-domain error, we might continue
-              if (data.domain) {
-                console.warn(`[Domain Check Worker] Error checking ${data.domain}, continuing with other domains...`);
-                progress.value.detailedMessage = `Error checking ${data.domain}`;
-              } else {
-                // Global worker error, abort
-                isChecking.value = false;
-                cleanupWorker();
-                reject(new Error(data.message || 'Unknown worker error'));
               }
-              break;
+          isChecking.value = false
+          resolve(groupedResults.value)
+        }
+
+        const fail = (error: Error) => {
+          detach()
+          cleanupWorkers()
+          isChecking.value = false
+          pendingDomains.value = []
+          reject(error)
+        }
+
+        // Stopping cancels every worker's job, keeping whatever results they have sent
+        const stop = () => {
+          pool.forEach((worker, index) => {
+            const cancel: DomainCheckCancel = { type: 'cancel', id: jobs[index] }
+            worker.postMessage(cancel)
+          })
+          finish()
+        }
+
+        const addWorkerResult = (result: DomainResult) => {
+          const shown = results.find(existing => existing.domain === result.domain)
+          if (!pendingDomains.value.includes(result.domain) && !shown?.revalidating) return
+          addResult(result, checkedDomains)
+          storeResult(result, variant)
+          finishDomain(result.domain, `Completed check for ${result.domain}: ${statusMessages[result.status]}`)
+        }
+
+        pool.forEach((worker, index) => {
+          worker.onmessage = (event: MessageEvent<DomainCheckWorkerMessage>) => {
+            const data = event.data
+            // Messages of an earlier, cancelled job may still be in flight
+            if (data.id !== jobs[index]) return
+
+            switch (data.type) {
+              case 'progress':
+                handleCheckEvent(data.event)
+                break
+              case 'result':
+                data.results.forEach(addWorkerResult)
+                if (data.done && --remaining === 0) finish()
+                break
+              case 'error':
+                console.error(`[Domain Check Worker] ${data.message || 'Unknown error'}`)
+                if (data.domain) {
+                  // A per-domain error; the worker carries on with the other domains
+                  console.warn(`[Domain Check Worker] Error checking ${data.domain}, continuing with other domains...`)
+                  progress.value = { ...progress.value, detailedMessage: `Error checking ${data.domain}` }
+                } else {
+                  fail(new Error(data.message || 'Unknown worker error'))
+                }
+                break
+            }
           }
-        };
 
-        // Handle worker errors
-        worker.onerror = (error: ErrorEvent) => {
-          console.error('[Domain Check Worker] Error:', error);
-          isChecking.value = false;
-          cleanupWorker();
-          reject(new Error('Worker error: ' + (error.message || 'Unknown error')));
-        };
+          // Handle worker errors
+          worker.onerror = (error: ErrorEvent) => {
+            console.error('[Domain Check Worker] Error:', error)
+            fail(new Error('Worker error: ' + (error.message || 'Unknown error')))
+          }
+        })
 
-        // Send the check request to the worker
-        worker.postMessage({
-          domainName,
-          tlds: sortedTLDs
+        // Nothing left to check, or stopped before the workers were asked
+        if (pool.length === 0 || signal?.aborted) {
+          finish()
+          return
+        }
+        signal?.addEventListener('abort', stop, { once: true })
+
+        // Workers can't read the page's storage, so the provider settings travel with the request
+        const providers = sharedProviderRegistry.list()
+        const maxConcurrentDomains = Math.ceil((options.maxConcurrentDomains ?? MAX_CONCURRENT_DOMAINS) / pool.length)
+        pool.forEach((worker, index) => {
+          const request: DomainCheckRequest = {
+            type: 'check',
+            id: jobs[index],
+            domainName,
+            tlds: shards[index],
+            providers,
+            consensusPolicy: { ...consensusPolicy.value },
+            retryPolicy: options.retryPolicy,
+            scoringThresholds,
+            maxConcurrentDomains,
+            rateLimitShare: 1 / pool.length
+          }
+          worker.postMessage(request)
         })
       })
     } catch (error) {
       // Handle any errors in worker setup
       isChecking.value = false
-      cleanupWorker()
+      pendingDomains.value = []
+      cleanupWorkers()
       console.error('[Domain Check] Worker initialization failed:', error)
       
       // Fall back to standard implementation
       console.info('[Domain Check] Falling back to standard implementation')
-      return checkDomainsStandard(domainName, selectedTLDs)
+      return checkDomainsStandard(domainName, selectedTLDs, signal)
     }
   }
 
   // Original standard implementation
-  const checkDomainsStandard = async (domainName: string, selectedTLDs: string[]) => {
-    // Sort TLDs for consistent cache key
+  const checkDomainsStandard = async (domainName: string, selectedTLDs: string[], signal?: AbortSignal) => {
+    // Sort TLDs so results come in a stable order
     const sortedTLDs = [...selectedTLDs].sort()
-    const cacheKey = `${domainName}:${sortedTLDs.join(',')}`
-    const cachedEntry = cache.value[cacheKey]
-
-    // Check cache
-    if (cachedEntry && Date.now() - cachedEntry.timestamp < 5 * 60 * 1000) { // 5 min cache
-      results.splice(0, results.length, ...cachedEntry.results)
-      console.info(`[Domain Check] Cache hit for ${domainName} with TLDs: ${sortedTLDs.join(',')}`)
-      return groupedResults.value
-    }
-    console.info(`[Domain Check] Cache miss or expired for ${domainName} with TLDs: ${sortedTLDs.join(',')}`)
+    const variant = getResultCacheVariant()
 
-    // Reset state
+    // Reset state; every domain shows as pending until its result streams in
+    const checkedDomains = sortedTLDs.map(tld => `${domainName}${tld}`)
     results.splice(0, results.length) // Clear previous results using splice for reactivity
+    pendingDomains.value = checkedDomains
     progress.value = {
       percentage: 0,
       stage: CheckStage.PREPARING,
@@ -719,89 +1027,38 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
     isChecking.value = true
 
     const totalDomains = sortedTLDs.length
-    const domainCheckPromises: Promise<DomainResult>[] = []
-    
-    // Pre-calculate total percentage allocation per domain
-    const domainPercentage = 100 / totalDomains
+    // Checks cut short by the signal resolve to null
+    const domainCheckPromises: Promise<DomainResult | null>[] = []
+
+    // Checks beyond the concurrency cap wait their turn instead of all hitting the providers at once
+    const limiter = new ConcurrencyLimiter(options.maxConcurrentDomains ?? MAX_CONCURRENT_DOMAINS, updateQueueProgress)
+    domainLimiter = limiter
     
-    // Track processed domains to update progress
-    let processedDomains = 0
+    // Progress comes from the events each domain's pipeline emits
+    const { handleCheckEvent, finishDomain } = createProgressTracker(totalDomains)
 
-    for (const tld of sortedTLDs) {
-      const fullDomain = `${domainName}${tld}`
-      
-      // Update progress to show current domain
-      progress.value = {
-        ...progress.value,
-        percentage: (processedDomains / totalDomains) * 95, // Leave 5% for finalization
-        currentDomain: fullDomain,
-        stage: CheckStage.WILDCARD_CHECK,
-        detailedMessage: `Starting check for ${fullDomain}`,
-      }
-      
+    // Cached results show at once; only misses and stale results are checked
+    const domainsToCheck = await serveCachedResults(checkedDomains, variant)
+    checkedDomains
+      .filter(domain => !domainsToCheck.includes(domain))
+      .forEach(domain => finishDomain(domain, `Cached result for ${domain}`))
+
+    for (const fullDomain of domainsToCheck) {
       // Create a promise that updates progress during execution
       const domainPromise = (async () => {
         try {
-          // WILDCARD CHECK PHASE
-          progress.value = {
-            ...progress.value,
-            percentage: (processedDomains / totalDomains) * 95 + (domainPercentage * 0.1),
-            currentDomain: fullDomain,
-            stage: CheckStage.WILDCARD_CHECK,
-            detailedMessage: `Checking wildcard DNS for ${fullDomain}`,
-          }
-          
-          // PRIMARY QUERIES PHASE
-          progress.value = {
-            ...progress.value,
-            percentage: (processedDomains / totalDomains) * 95 + (domainPercentage * 0.3),
-            currentDomain: fullDomain,
-            stage: CheckStage.PRIMARY_QUERY,
-            detailedMessage: `Querying DNS providers for ${fullDomain}`,
-          }
-          
-          // Potential FALLBACK PHASE
-          progress.value = {
-            ...progress.value,
-            percentage: (processedDomains / totalDomains) * 95 + (domainPercentage * 0.6),
-            currentDomain: fullDomain,
-            stage: CheckStage.FALLBACK_QUERY,
-            detailedMessage: `Performing additional DNS checks for ${fullDomain}`,
-          }
-          
-          // ANALYSIS PHASE
-          progress.value = {
-            ...progress.value,
-            percentage: (processedDomains / totalDomains) * 95 + (domainPercentage * 0.8),
-            currentDomain: fullDomain,
-            stage: CheckStage.ANALYZING,
-            detailedMessage: `Analyzing DNS responses for ${fullDomain}`,
-          }
-          
-          // Actually perform the check (this encapsulates all the above phases)
-          const result = await checkDomainAvailability(fullDomain)
-          
-          // Update processed count for next iteration
-          processedDomains++
-          progress.value = {
-            ...progress.value,
-            domainsProcessed: processedDomains,
-            percentage: (processedDomains / totalDomains) * 95,
-            currentDomain: fullDomain,
-            stage: CheckStage.FINALIZING,
-            detailedMessage: `Completed check for ${fullDomain}: ${statusMessages[result.status]}`
-          }
-          
+          // Perform the check once the limiter admits it; its stages report progress as they run
+          const result = await limiter.run(() => checkDomainAvailability(fullDomain, signal, handleCheckEvent))
+          finishDomain(fullDomain, `Completed check for ${fullDomain}: ${statusMessages[result.status]}`)
           return result
         } catch (error) {
-          // Handle errors but still update progress
-          processedDomains++
-          progress.value = {
-            ...progress.value,
-            domainsProcessed: processedDomains,
-            percentage: (processedDomains / totalDomains) * 95,
-            detailedMessage: `Error checking ${fullDomain}`
+          // A stopped check has no result; it doesn't count as processed
+          if (signal?.aborted) {
+            return null
           }
+
+          // Handle errors but still update progress
+          finishDomain(fullDomain, `Error checking ${fullDomain}`)
           
           // This catch block handles errors during checkDomainAvailability
           const { category, message, suggestsDomainExists } = handleError(
@@ -813,15 +1070,17 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
           return {
             domain: fullDomain,
             status: status,
+            confidence: 0, // A guess from the kind of error
             error: status === DomainAvailabilityStatus.ERROR,
             errorCategory: category,
             errorMessage: message,
             link: generateLink(fullDomain, status),
-            confidenceReasons: [
-              `Error during check: ${message}`,
-              suggestsDomainExists ? 'Error type suggests domain might be registered.' : 'Could not determine status.'
+            evidence: [
+              createEvidence('error', suggestsDomainExists ? 'registered' : 'neutral', { detail: `Error during check: ${message}` }),
+              createEvidence('verdict', 'neutral', { detail: suggestsDomainExists ? 'Error type suggests domain might be registered.' : 'Could not determine status.' })
             ],
             dnssecValidated: undefined,
+            resolverClaimedAd: undefined,
             wildcardDetected: undefined,
             isParkedByNs: false,
             isParkedByTxt: false
@@ -829,24 +1088,22 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
         }
       })()
       
-      // Add the promise to our collection
-      domainCheckPromises.push(domainPromise)
-    }
-
-    progress.value = {
-      ...progress.value,
-      stage: CheckStage.FINALIZING,
-      detailedMessage: 'Waiting for all domain queries to complete...'
+      // Add the promise to our collection, showing its result as soon as it's in
+      domainCheckPromises.push(domainPromise.then(result => {
+        if (result) {
+          addResult(result, checkedDomains)
+          storeResult(result, variant)
+        }
+        return result
+      }))
     }
 
     // Wait for all domain checks to complete
     const settledResults = await Promise.allSettled(domainCheckPromises)
 
-    const finalResults: DomainResult[] = settledResults.map((result, index) => {
-      const fullDomain = `${domainName}${sortedTLDs[index]}`
-      if (result.status === 'fulfilled') {
-        return result.value
-      } else {
+    settledResults.forEach((result, index) => {
+      const fullDomain = domainsToCheck[index]
+      if (result.status === 'rejected' && !signal?.aborted) {
         // Handle unexpected errors from the checkDomainAvailability promise itself (should be rare)
         console.error(`[Domain Check] Unexpected rejection for ${fullDomain}:`, result.reason)
         const { category, message } = handleError(
@@ -854,110 +1111,116 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
           result.reason instanceof Error ? result.reason : new Error(String(result.reason)),
           fullDomain
         )
-        return {
+        const failed: DomainResult = {
           domain: fullDomain,
           status: DomainAvailabilityStatus.ERROR,
+          confidence: 0,
           error: true,
           errorCategory: category,
           errorMessage: `Unexpected error: ${message}`,
           link: generateLink(fullDomain, DomainAvailabilityStatus.ERROR),
-          confidenceReasons: ['An unexpected error occurred during the check.'],
+          evidence: [createEvidence('error', 'neutral', { detail: 'An unexpected error occurred during the check.' })],
           dnssecValidated: undefined,
+          resolverClaimedAd: undefined,
           wildcardDetected: undefined,
           isParkedByNs: false,
           isParkedByTxt: false
         }
+        addResult(failed, checkedDomains)
       }
     })
 
-    results.splice(0, results.length, ...finalResults)
+    // Results are already in; a stopped check leaves the rest pending, which they no longer are
+    domainLimiter = null
+    pendingDomains.value = []
+    const completed = results.filter(result => !result.revalidating).length
+    endRevalidation()
     
     // Update final progress
-    progress.value = {
-      percentage: 100,
-      stage: CheckStage.COMPLETE,
-      domainsProcessed: totalDomains,
-      totalDomains: totalDomains,
-      detailedMessage: 'All domain checks complete'
-    }
+    progress.value = signal?.aborted
+      ? {
+          percentage: (completed / totalDomains) * 100,
+          stage: CheckStage.COMPLETE,
+          domainsProcessed: completed,
+          totalDomains: totalDomains,
+          detailedMessage: `Check stopped after ${completed} of ${totalDomains} domains`
+        }
+      : {
+          percentage: 100,
+          stage: CheckStage.COMPLETE,
+          domainsProcessed: totalDomains,
+          totalDomains: totalDomains,
+          detailedMessage: 'All domain checks complete'
+        }
     
     isChecking.value = false
-
-    cache.value[cacheKey] = {
-      results: JSON.parse(JSON.stringify(finalResults)),
-      timestamp: Date.now()
-    }
-    console.info(`[Domain Check] Caching results for ${domainName} with TLDs: ${sortedTLDs.join(',')}`)
+    console.debug('[Domain Check] DNS response cache stats:', sharedDnsCache.getStats())
 
     return groupedResults.value
   }
 
-  const checkDomainAvailability = async (domain: string): Promise<DomainResult> => {
-    // Use the PRIMARY_PROVIDER_URLS instead of the first 2 providers from DOH_PROVIDER_URLS
-    if (PRIMARY_PROVIDER_URLS.length === 0) {
+  const checkDomainAvailability = async (domain: string, signal?: AbortSignal, onEvent?: (event: CheckEvent) => void): Promise<DomainResult> => {
+    signal?.throwIfAborted();
+
+    // Choose this domain's primaries from current provider health
+    const primaryUrls = selectPrimaryProviderUrls();
+    if (primaryUrls.length === 0) {
       throw new Error("No primary DoH providers configured.");
     }
 
-    // Check if domain has a known wildcard TLD
     const tld = domain.substring(domain.indexOf('.'));
-    const isKnownWildcardTld = KNOWN_WILDCARD_TLDS.has(tld);
-    
-    let isWildcard = false;
-    let wildcardCheckError: string | undefined = undefined;
-    const initialConfidenceReasons: string[] = [];
-
-    // Add known wildcard TLD to initial reasons if applicable
-    if (isKnownWildcardTld) {
-      initialConfidenceReasons.push(`Domain uses TLD (${tld}) known to commonly implement wildcards.`);
-    }
+    const initialEvidence: Evidence[] = [];
+    // All queries for this domain share one deadline and attempt log
+    const startedAt = Date.now();
+    const queryContext: QueryContext = {
+      domain, startedAt, stage: CheckStage.PREPARING, timeline: [], onEvent,
+      deadline: startedAt + retryPolicy.deadlineMs, attempts: [], primaryUrls, signal
+    };
 
-    // 1. Wildcard Check (using a rotating provider)
-    try {
-      isWildcard = await checkWildcardDNS(domain);
-      if (isWildcard) {
-        initialConfidenceReasons.push('Wildcard DNS detected (often used for parking/catch-alls).');
-      }
-    } catch (error) {
-      const { message } = handleError('Wildcard check', error as Error, domain);
-      wildcardCheckError = `Wildcard detection failed: ${message}`;
-      initialConfidenceReasons.push(wildcardCheckError); // Log failure reason
-      // Non-fatal: proceed with the check, but note the detection failure.
+    // What the evidence sources need asked, each question once; the NS query of the domain is asked anyway
+    const sourceContext: EvidenceSourceContext = { domain, tld, policy: consensusPolicy.value };
+    const sourceQueries = evidenceSources.map(source => ({
+      source,
+      queries: source.queries(sourceContext).map(query => ({ ...query, name: query.name ?? domain }))
+    }));
+    const extraQueries = [...new Map(sourceQueries.flatMap(({ queries }) => queries).map(query => [getQueryKey(query), query])).values()]
+      .filter(query => !(query.scope === 'primaries' && query.name === domain && query.type === DNS_RECORD_TYPE_NS));
+    // Answers to questions about other names, and to probes, which only the sources that asked read
+    const sourceResults = new Map<string, ProviderQueryResult[]>();
+
+    // 1. Probes, the wildcard check among them, each to a randomly chosen healthy provider
+    const probes = extraQueries.filter(query => query.scope === 'probe');
+    if (probes.length > 0) {
+      await runStage(queryContext, CheckStage.WILDCARD_CHECK, () => Promise.all(probes.map(async query => {
+        sourceResults.set(getQueryKey(query), [await queryProvider(selectProbeProviderUrl(), query.name, query.type, queryContext)]);
+      })));
+      signal?.throwIfAborted();
     }
 
     // Prepare to collect results from different query types and providers
-    const allProviderResults: Array<
-      { status: 'fulfilled', value: DoHJsonResponse, provider: string, queryType: number } |
-      { status: 'rejected', reason: Error, provider: string, queryType: number, errorCategory?: ErrorCategory, errorMessage?: string, suggestsDomainExists?: boolean }
-    > = [];
-    let errorsIndicatingDomainExists = 0;
-
-    // 2. Perform NS and TXT queries in parallel using PRIMARY_PROVIDER_URLS
-    const queryPromises = PRIMARY_PROVIDER_URLS.flatMap(providerUrl => {
-      const providerConfig = getProviderConfigFromUrl(providerUrl);
-      const providerName = providerConfig?.name ?? 'Unknown Provider';
-
-      const nsPromise = fetchDnsJson(providerUrl, domain, DNS_RECORD_TYPE_NS)
-        .then(data => ({ status: 'fulfilled' as const, value: data, provider: providerName, queryType: DNS_RECORD_TYPE_NS }))
-        .catch(error => {
-          const { category, message, suggestsDomainExists } = handleError(`NS query from ${providerName}`, error as Error, domain);
-          if (suggestsDomainExists) errorsIndicatingDomainExists++;
-          return { status: 'rejected' as const, reason: error as Error, provider: providerName, queryType: DNS_RECORD_TYPE_NS, errorCategory: category, errorMessage: message, suggestsDomainExists };
-        });
-
-      const txtPromise = fetchDnsJson(providerUrl, domain, DNS_RECORD_TYPE_TXT)
-        .then(data => ({ status: 'fulfilled' as const, value: data, provider: providerName, queryType: DNS_RECORD_TYPE_TXT }))
-        .catch(error => {
-          // Don't double-count errors suggesting existence if NS already failed similarly,
-          // but log the TXT query failure. TXT failures are less indicative of existence.
-          const { category, message } = handleError(`TXT query from ${providerName}`, error as Error, domain);
-          return { status: 'rejected' as const, reason: error as Error, provider: providerName, queryType: DNS_RECORD_TYPE_TXT, errorCategory: category, errorMessage: message, suggestsDomainExists: false }; // Assume TXT errors don't strongly suggest existence
-        });
-
-      return [nsPromise, txtPromise];
+    const allProviderResults: ProviderQueryResult[] = [];
+
+    // 2. Query NS, and whatever else the sources need, from every primary provider in parallel
+    const primaryQueries: Required<EvidenceQuery>[] = [{ name: domain, type: DNS_RECORD_TYPE_NS, scope: 'primaries' }, ...extraQueries.filter(query => query.scope === 'primaries')];
+    const startPrimaryQueries = () => primaryUrls.flatMap(providerUrl => primaryQueries.map(async query => ({
+      query,
+      result: await queryProvider(providerUrl, query.name, query.type, queryContext)
+    })));
+
+    const answered = await runStage(queryContext, CheckStage.PRIMARY_QUERY, () => Promise.all(startPrimaryQueries()));
+    // Queries cut short by the signal failed for no reason worth interpreting
+    signal?.throwIfAborted();
+    // Answers about the domain itself count towards the verdict; the rest only reach the sources
+    const primaryResults = answered.filter(({ query }) => query.name === domain).map(({ result }) => result);
+    allProviderResults.push(...primaryResults);
+    answered.filter(({ query }) => query.name !== domain).forEach(({ query, result }) => {
+      sourceResults.set(getQueryKey(query), [...(sourceResults.get(getQueryKey(query)) ?? []), result]);
     });
 
-    const nsTxtResults = await Promise.all(queryPromises);
-    allProviderResults.push(...nsTxtResults);
+    // 2b. Escalate the NS query to tie-breaker providers until a quorum agrees: the primaries may disagree, fail or be too few
+    const tieBreakerResults = await escalateNsQuery(domain, primaryResults, queryContext, initialEvidence);
+    allProviderResults.push(...tieBreakerResults);
+    signal?.throwIfAborted();
 
     // 3. Fallback to SOA if NS queries were inconclusive (and TXT didn't help clarify)
     // Only consider NS results for the SOA fallback decision
@@ -966,134 +1229,221 @@ export const useDomainCheck = (options: { useWorkers?: boolean } = {}) => {
 
     if (needSoaFallback) {
       console.info(`[Domain Check] NS/TXT queries inconclusive for ${domain}, trying SOA records.`);
-      initialConfidenceReasons.push('NS/TXT queries were inconclusive, falling back to SOA check.');
-      const soaPromises = PRIMARY_PROVIDER_URLS.map(providerUrl => {
-        const providerConfig = getProviderConfigFromUrl(providerUrl);
-        const providerName = providerConfig?.name ?? 'Unknown Provider';
-        return fetchDnsJson(providerUrl, domain, DNS_RECORD_TYPE_SOA)
-          .then(data => ({ status: 'fulfilled' as const, value: data, provider: providerName, queryType: DNS_RECORD_TYPE_SOA }))
-          .catch(error => {
-            const { category, message, suggestsDomainExists } = handleError(`SOA query from ${providerName}`, error as Error, domain);
-            if (suggestsDomainExists) errorsIndicatingDomainExists++;
-            return { status: 'rejected' as const, reason: error as Error, provider: providerName, queryType: DNS_RECORD_TYPE_SOA, errorCategory: category, errorMessage: message, suggestsDomainExists };
-          });
-      });
-      const soaResults = await Promise.all(soaPromises);
+      initialEvidence.push(createEvidence('escalation', 'neutral', { detail: 'NS/TXT queries were inconclusive, falling back to SOA check.' }));
+      const startSoaQueries = () => primaryUrls.map(providerUrl => queryProvider(providerUrl, domain, DNS_RECORD_TYPE_SOA, queryContext));
+      const soaResults = await runStage(queryContext, CheckStage.FALLBACK_QUERY, () => Promise.all(startSoaQueries()));
       allProviderResults.push(...soaResults); // Add SOA results for interpretation
     }
 
-    // 4. Interpret combined results (including NS, TXT, potential SOA, wildcard status, and known wildcard TLD)
-    return interpretCombinedResults(domain, allProviderResults, isWildcard, isKnownWildcardTld, errorsIndicatingDomainExists, initialConfidenceReasons);
+    signal?.throwIfAborted();
+
+    // Report every query attempt, including retries and failovers
+    initialEvidence.push(...queryContext.attempts);
+
+    const result = await runStage(queryContext, CheckStage.ANALYZING, async () => {
+      // 4. Validate DNSSEC locally on the first conclusive NS response (queried with the DO bit)
+      const dnssecResult = await validateDnssec(domain, primaryResults);
+      signal?.throwIfAborted();
+
+      // 5. Let each evidence source read the answers to its queries
+      const sourceEvidence = await gatherSourceEvidence(sourceContext, primaryUrls, sourceQueries, allProviderResults, sourceResults);
+
+      // 6. Interpret combined results (NS, potential SOA, the sources' evidence and DNSSEC)
+      return interpretCombinedResults(domain, primaryUrls, allProviderResults, initialEvidence, sourceEvidence, dnssecResult);
+    });
+
+    // Stages come before the queries they started with
+    const timeline = [...queryContext.timeline].sort((a, b) => a.startMs - b.startMs || Number(a.provider !== undefined) - Number(b.provider !== undefined));
+    return { ...result, timeline };
+  }
+
+  // Ask one provider one question; a failure becomes a rejected result rather than an exception
+  const queryProvider = (providerUrl: string, name: string, recordType: number, context: QueryContext): Promise<ProviderQueryResult> => {
+    const providerName = getProviderConfigFromUrl(providerUrl)?.name ?? 'Unknown Provider';
+    return fetchDnsJson(providerUrl, name, recordType, context)
+      .then(data => ({ status: 'fulfilled' as const, value: data, provider: data.answeredBy ?? providerName, queryType: recordType }))
+      .catch(error => {
+        const { category, message, suggestsDomainExists } = handleError(`${recordTypeName(recordType)} query from ${providerName}`, error as Error, name);
+        // Only failed delegation queries hint at a registered domain; TXT failures and the like say little
+        const delegationQuery = name === context.domain && (recordType === DNS_RECORD_TYPE_NS || recordType === DNS_RECORD_TYPE_SOA);
+        return { status: 'rejected' as const, reason: error as Error, provider: providerName, queryType: recordType, errorCategory: category, errorMessage: message, suggestsDomainExists: suggestsDomainExists && delegationQuery };
+      });
+  }
+
+  // Hand each evidence source the answers to its queries, and collect what it makes of them.
+  // A source that fails costs its own evidence only.
+  const gatherSourceEvidence = async (
+    context: EvidenceSourceContext,
+    primaryUrls: string[],
+    sourceQueries: { source: EvidenceSource, queries: Required<EvidenceQuery>[] }[],
+    providerResults: ProviderQueryResult[],
+    sourceResults: Map<string, ProviderQueryResult[]>
+  ): Promise<Evidence[]> => {
+    const primaryNames = primaryUrls.map(url => getProviderConfigFromUrl(url)?.name ?? 'Unknown');
+    const answersTo = (query: Required<EvidenceQuery>): EvidenceAnswer[] => {
+      // Queries about the domain from the primaries were answered with the rest, tie-breakers and failovers included
+      const results = query.scope === 'primaries' && query.name === context.domain
+        ? providerResults.filter(result => result.queryType === query.type)
+        : sourceResults.get(getQueryKey(query)) ?? [];
+      return results.map(result => ({
+        query,
+        provider: result.provider,
+        primary: primaryNames.includes(result.provider),
+        ...(result.status === 'fulfilled' ? { response: result.value } : { error: result.errorMessage ?? result.reason.message })
+      }));
+    };
+
+    const found = await Promise.all(sourceQueries.map(async ({ source, queries }) => {
+      try {
+        const evidence = await source.analyze(queries.flatMap(answersTo), context);
+        return evidence.map(item => ({ ...item, source: source.id }));
+      } catch (error) {
+        console.warn(`[Domain Check] Evidence source ${source.id} failed for ${context.domain}:`, error);
+        return [createEvidence('error', 'neutral', { source: source.id, detail: `Evidence source ${source.id} failed: ${(error as Error).message}` })];
+      }
+    }));
+    return found.flat();
+  }
+
+  // What an NS response says about the domain: conclusively absent, delegated, or nothing conclusive
+  const getNsVerdict = (result: ProviderQueryResult): 'nxdomain' | 'registered' | 'inconclusive' => {
+    if (result.status !== 'fulfilled') return 'inconclusive';
+    const data = result.value;
+    if (data.Status === DNS_STATUS_NXDOMAIN) return 'nxdomain';
+    const hasNsOrSoaRecords = [...(data.Answer ?? []), ...(data.Authority ?? [])].some(r => r.type === DNS_RECORD_TYPE_NS || r.type === DNS_RECORD_TYPE_SOA);
+    return data.Status === DNS_STATUS_NOERROR && hasNsOrSoaRecords ? 'registered' : 'inconclusive';
+  }
+
+  // Ask further providers for NS, healthiest first, until a quorum agrees on NXDOMAIN or a delegation
+  const escalateNsQuery = async (domain: string, results: ProviderQueryResult[], context: QueryContext, evidence: Evidence[]): Promise<ProviderQueryResult[]> => {
+    const { quorum } = consensusPolicy.value;
+    const nsResults = results.filter(r => r.queryType === DNS_RECORD_TYPE_NS);
+    const verdicts = nsResults.map(getNsVerdict);
+    const votes = (verdict: 'nxdomain' | 'registered') => verdicts.filter(v => v === verdict).length;
+    const disagree = verdicts.includes('nxdomain') && verdicts.includes('registered');
+    const missing = verdicts.includes('inconclusive');
+    // Agreement short of the quorum, e.g. two primaries agreeing on NXDOMAIN when three must
+    const short = votes('nxdomain') < quorum && votes('registered') < quorum;
+    if (!disagree && !missing && !short) {
+      return [];
+    }
+
+    const askedNames = new Set(nsResults.map(r => r.provider));
+    const candidates = healthTracker.rank(getProviderUrls()).filter(url =>
+      !context.primaryUrls.includes(url) && !askedNames.has(getProviderConfigFromUrl(url)?.name ?? '') && healthTracker.canRequest(url)
+    );
+    const tieBreakerResults: ProviderQueryResult[] = [];
+
+    evidence.push(createEvidence('escalation', 'neutral', { detail: `Primary providers ${disagree ? 'disagreed' : missing ? 'did not all give a conclusive answer' : `agreed, but fewer than ${quorum}`}, escalating until ${quorum} agree.` }));
+    await runStage(context, CheckStage.FALLBACK_QUERY, async () => {
+      for (const url of candidates) {
+        if (votes('nxdomain') >= quorum || votes('registered') >= quorum || Date.now() >= context.deadline) break;
+
+        const config = getProviderConfigFromUrl(url);
+        // Its circuit may have opened, or another domain taken its one trial query, since the candidates were ranked
+        const release = config && healthTracker.acquire(url);
+        if (!config || !release) continue;
+
+        // No failover here: the other providers have already been asked
+        const result: ProviderQueryResult = await queryWithRetries(config, domain, DNS_RECORD_TYPE_NS, context)
+          .then(data => ({ status: 'fulfilled' as const, value: data, provider: config.name, queryType: DNS_RECORD_TYPE_NS }))
+          .catch(error => {
+            const { category, message, suggestsDomainExists } = handleError(`Tie-breaker NS query from ${config.name}`, error as Error, domain);
+            return { status: 'rejected' as const, reason: error as Error, provider: config.name, queryType: DNS_RECORD_TYPE_NS, errorCategory: category, errorMessage: message, suggestsDomainExists };
+          })
+          .finally(release);
+        const verdict = getNsVerdict(result);
+        tieBreakerResults.push(result);
+        verdicts.push(verdict);
+        evidence.push(createEvidence('escalation', 'neutral', { provider: config.name, queryType: 'NS', detail: verdict === 'inconclusive' ? 'inconclusive' : verdict.toUpperCase() }));
+      }
+    });
+
+    const reached = votes('nxdomain') >= quorum ? 'NXDOMAIN' : votes('registered') >= quorum ? 'delegation found' : undefined;
+    evidence.push(createEvidence('escalation', 'neutral', {
+      detail: reached ? `Quorum of ${quorum} reached: ${reached}.` : `Quorum of ${quorum} not reached (${candidates.length === 0 ? 'no other providers available' : votes('nxdomain') > 0 && votes('registered') > 0 ? 'providers still disagree' : 'too few conclusive answers'}).`
+    }));
+    return tieBreakerResults;
+  }
+
+  // Validates the DNSSEC chain of trust for a conclusive NS response, without trusting the resolver's AD flag
+  const validateDnssec = async (
+    domain: string,
+    results: Array<{ status: 'fulfilled', value: DoHJsonResponse, queryType: number } | { status: 'rejected', queryType: number }>
+  ): Promise<DnssecValidationResult | undefined> => {
+    const conclusive = results.find(r =>
+      r.status === 'fulfilled' && r.queryType === DNS_RECORD_TYPE_NS &&
+      (r.value.Status === DNS_STATUS_NOERROR || r.value.Status === DNS_STATUS_NXDOMAIN)
+    );
+    if (!conclusive || conclusive.status !== 'fulfilled') {
+      return undefined;
+    }
+
+    const result = await dnssecValidator.validateResponse(conclusive.value);
+    console.info(`[Domain Check] DNSSEC validation for ${domain}: ${result.status} (${result.reason})`);
+    return result;
   }
 
   // Interprets the collective results from NS/SOA queries across providers
 const interpretCombinedResults = (
     domain: string,
-    providerResults: Array<
-        { status: 'fulfilled', value: DoHJsonResponse, provider: string, queryType: number } |
-        { status: 'rejected', reason: Error, provider: string, queryType: number, errorCategory?: ErrorCategory, errorMessage?: string, suggestsDomainExists?: boolean }
-    >,
-    isWildcard: boolean,
-    isKnownWildcardTld: boolean,
-    totalErrorsSuggestingDomainExists: number,
-    initialReasons: string[]
+    primaryProviderUrls: string[],
+    providerResults: ProviderQueryResult[],
+    initialEvidence: Evidence[],
+    sourceEvidence: Evidence[],
+    dnssecResult?: DnssecValidationResult
 ): DomainResult => {
-    const reasons = [...initialReasons]
-    let finalStatus: DomainAvailabilityStatus = DomainAvailabilityStatus.INDETERMINATE
-
-    let nxDomainCount = 0
-    let noErrorWithRecordsCount = 0 // NOERROR response with NS/SOA records
-    let noErrorWithoutRecordsCount = 0 // NOERROR but no relevant records
-    let servFailCount = 0
-    let otherDnsErrorCount = 0
-    let networkOrTimeoutErrorCount = 0
-    let dnssecValidated = false
-    let parkedNsCount = 0 // Count providers reporting parked NS
-    const txtAnalysisResults = new Map<string, ReturnType<typeof analyzeTxtRecordsForParking>>() // Updated type
+    const evidence = [...initialEvidence]
+    const policy = consensusPolicy.value
+
+    let resolverClaimedAd = false
     let primaryErrorCategory: ErrorCategory | undefined = undefined
     let primaryErrorMessage: string | undefined = undefined
-    let hasActiveUsageIndicators = false // Track active usage indicators
 
     const processedProviders = new Set<string>()
-    const nsResponses = new Map<string, string[]>() // Store NS records per provider
-    const primaryProviderNames = PRIMARY_PROVIDER_URLS.map(url => {
+    const primaryProviderNames = primaryProviderUrls.map(url => {
         const config = getProviderConfigFromUrl(url);
         return config?.name ?? 'Unknown';
     });
 
-    // Collect primary provider results for consensus checks
-    const primaryProviderResults = providerResults.filter(r => primaryProviderNames.includes(r.provider));
-    
     // Process all results
     providerResults.forEach(result => {
         processedProviders.add(result.provider)
-        const queryTypeText = result.queryType === DNS_RECORD_TYPE_NS ? 'NS' : (result.queryType === DNS_RECORD_TYPE_SOA ? 'SOA' : 'TXT');
-        const isPrimaryProvider = primaryProviderNames.includes(result.provider);
+        // Where each piece of evidence came from
+        const source = {
+            provider: result.provider,
+            primary: primaryProviderNames.includes(result.provider),
+            queryType: recordTypeName(result.queryType)
+        };
 
         if (result.status === 'fulfilled') {
             const data = result.value
             const statusText = DNS_STATUS_MESSAGES[data.Status] || `Unknown Status ${data.Status}`
-            reasons.push(`Provider ${result.provider}${isPrimaryProvider ? ' (Primary)' : ''} (${queryTypeText}): ${statusText}${data.Comment ? ` (${data.Comment})` : ''}`)
 
             if (data.Status === DNS_STATUS_NXDOMAIN) {
-                nxDomainCount++
+                evidence.push(createEvidence('nxdomain', 'available', { ...source, detail: data.Comment }))
             } else if (data.Status === DNS_STATUS_NOERROR) {
                 const hasNsOrSoaRecords =
                     (data.Answer?.some(r => r.type === DNS_RECORD_TYPE_NS || r.type === DNS_RECORD_TYPE_SOA)) ||
                     (data.Authority?.some(r => r.type === DNS_RECORD_TYPE_NS || r.type === DNS_RECORD_TYPE_SOA))
 
                 if (hasNsOrSoaRecords) {
-                    noErrorWithRecordsCount++
-                    reasons.push(` -> Found NS/SOA records.`)
+                    evidence.push(createEvidence('ns-found', 'registered', source))
                 } else {
-                     noErrorWithoutRecordsCount++
-                    reasons.push(` -> No confirming NS/SOA records found despite NOERROR.`)
-                }
-
-                // Check NS records for parking
-                if (result.queryType === DNS_RECORD_TYPE_NS && data.Answer) {
-                    const currentNsList: string[] = []
-                    let providerReportsParkedNs = false;
-                    data.Answer.forEach(record => {
-                        if (record.type === DNS_RECORD_TYPE_NS && typeof record.data === 'string') {
-                             const nameserver = record.data.toLowerCase().replace(/\.$/, ''); // Normalize
-                            currentNsList.push(nameserver);
-                            if (PARKING_NAMESERVERS.has(nameserver)) {
-                                providerReportsParkedNs = true;
-                                reasons.push(` -> Found parking nameserver: ${record.data}`);
-                            }
-                        }
-                    });
-                    nsResponses.set(result.provider, currentNsList);
-                    if (providerReportsParkedNs) {
-                        parkedNsCount++;
-                    }
-                }
-
-                // Analyze TXT records using the updated function
-                if (result.queryType === DNS_RECORD_TYPE_TXT) {
-                     const analysis = analyzeTxtRecordsForParking(data);
-                     txtAnalysisResults.set(result.provider, analysis); // Store full analysis
-                     if (analysis.matchedPatterns.length > 0) {
-                          reasons.push(` -> Found patterns: [${analysis.matchedPatterns.join(', ')}] (Confidence: ${analysis.confidence})`);
-                     }
-                     
-                     // Check for active usage indicators
-                     if (analysis.hasActiveUsageIndicators) {
-                         hasActiveUsageIndicators = true;
-                         reasons.push(` -> Found active domain usage indicators (verifications)`);
-                     }
+                    evidence.push(createEvidence('no-records', 'neutral', source))
                 }
 
+            } else if (data.Status === DNS_STATUS_SERVFAIL && policy.servfail === 'ignore') {
+                // The policy treats SERVFAIL as no answer, like a failed query
+                evidence.push(createEvidence('servfail', 'neutral', { ...source, detail: 'ignored by the consensus policy', weight: 0 }))
             } else if (data.Status === DNS_STATUS_SERVFAIL) {
-                servFailCount++
+                evidence.push(createEvidence('servfail', policy.servfail === 'registered' ? 'registered' : 'neutral', { ...source, detail: data.Comment }))
                  if (!primaryErrorCategory) { // Capture first significant error
                     primaryErrorCategory = ErrorCategory.DNS_ERROR
                     primaryErrorMessage = `DNS server failure (SERVFAIL) reported by ${result.provider}`
                 }
             } else { // Other DNS status codes (FORMERR, NOTIMP, REFUSED etc.)
-                 otherDnsErrorCount++
-                 reasons.push(` -> DNS error code ${data.Status}.`)
+                 evidence.push(createEvidence('dns-error', ERROR_CODES_SUGGESTING_DOMAIN_EXISTS.includes(data.Status) ? 'registered' : 'neutral', { ...source, detail: `${statusText}, code ${data.Status}` }))
                  if (!primaryErrorCategory) {
                     primaryErrorCategory = ErrorCategory.DNS_ERROR
                     primaryErrorMessage = `DNS error ${statusText} reported by ${result.provider}`
@@ -1101,197 +1451,95 @@ const interpretCombinedResults = (
             }
 
             if (data.AD) { // DNSSEC Authenticated Data flag
-                dnssecValidated = true // Mark if any provider confirms DNSSEC
-                reasons.push(` -> DNSSEC validated (AD flag).`)
+                resolverClaimedAd = true // Only the resolver's claim, see local validation below
+                evidence.push(createEvidence('resolver-ad', 'neutral', source))
             }
         } else { // status === 'rejected'
             const category = result.errorCategory || ErrorCategory.UNKNOWN
             const message = result.errorMessage || 'Unknown error'
-             reasons.push(`Provider ${result.provider}${isPrimaryProvider ? ' (Primary)' : ''} (${queryTypeText}): Error - ${message}`)
-
-            if (category === ErrorCategory.NETWORK || category === ErrorCategory.TIMEOUT) {
-                networkOrTimeoutErrorCount++
-            } else {
-                // Treat other errors (likely DNS related) similarly to DNS status errors
-                otherDnsErrorCount++
-            }
+            // Some errors are typical of registered domains
+            evidence.push(createEvidence('error', result.suggestsDomainExists ? 'registered' : 'neutral', {
+                ...source,
+                detail: `${message}${result.suggestsDomainExists ? '; this error type sometimes occurs with registered domains' : ''}`
+            }))
 
             // Capture first significant error message/category
             if (!primaryErrorCategory) {
                 primaryErrorCategory = category
                 primaryErrorMessage = message
             }
-
-            if (result.suggestsDomainExists) {
-                reasons.push(` -> This error type sometimes occurs with registered domains.`)
-            }
         }
     })
 
-    const totalResponses = providerResults.length
-    const distinctProviderResponses = processedProviders.size // How many unique providers gave *some* result
-    const consensusThreshold = Math.max(1, Math.ceil(distinctProviderResponses / 2)); // Need >50% consensus from responders
-
-    // Primary provider consensus check (crucial for high confidence)
-    const primaryProviderCount = primaryProviderNames.length;
-    const primaryProviderResponses = primaryProviderResults.length;
-    
-    // Calculate specific primary provider response characteristics
-    const primaryNxDomainCount = primaryProviderResults.filter(r => 
-      r.status === 'fulfilled' && r.value.Status === DNS_STATUS_NXDOMAIN
-    ).length;
-    
-    const primaryNoErrorWithRecordsCount = primaryProviderResults.filter(r => 
-      r.status === 'fulfilled' && 
-      r.value.Status === DNS_STATUS_NOERROR && 
-      (r.value.Answer?.some(rec => rec.type === DNS_RECORD_TYPE_NS || rec.type === DNS_RECORD_TYPE_SOA) ||
-       r.value.Authority?.some(rec => rec.type === DNS_RECORD_TYPE_NS || rec.type === DNS_RECORD_TYPE_SOA))
-    ).length;
-    
-    // Calculate if we have a strong consensus among primary providers
-    const primaryNxDomainConsensus = primaryNxDomainCount === primaryProviderCount && primaryProviderCount > 1;
-    const anyPrimaryNoErrorWithRecords = primaryNoErrorWithRecordsCount > 0;
-
-    // Calculate TXT pattern consensus across all providers
-    let parkedTxtConsensusCount = 0;
-    let uniqueMatchedTxtPatterns = new Set<string>();
-    txtAnalysisResults.forEach(analysis => {
-        if (analysis.isParked) parkedTxtConsensusCount++;
-        analysis.matchedPatterns.forEach(p => uniqueMatchedTxtPatterns.add(p));
-    });
-
-    // Calculate Premium TXT signal consensus
-    let premiumTxtConsensusCount = 0;
-    let uniquePremiumTxtPatterns = new Set<string>();
-    txtAnalysisResults.forEach(analysis => {
-        if (analysis.isPremium) {
-            premiumTxtConsensusCount++;
-            // Add only premium-related patterns if distinguishable
-            analysis.matchedPatterns.filter(p => 
-                p.toLowerCase().includes('premium') || 
-                p.toLowerCase().includes('sale') ||
-                p.toLowerCase().includes('broker')
-            ).forEach(p => uniquePremiumTxtPatterns.add(p));
-        }
-    });
+    // What the evidence sources found: wildcards, parking, and any signals of the app's own
+    evidence.push(...sourceEvidence)
 
-    // Determine strong consensus thresholds
-    const hasPremiumTxtSignalConsensus = premiumTxtConsensusCount >= consensusThreshold && premiumTxtConsensusCount > 0;
-    
-    // Check for strong parking signals (consensus-based)
-    const hasStrongParkingSignal =
-      parkedNsCount >= consensusThreshold ||
-      parkedTxtConsensusCount >= consensusThreshold ||
-      (isWildcard && (parkedNsCount > 0 || parkedTxtConsensusCount > 0)); // Wildcard + any parking signal is strong
-
-    // Priority 1: Domain with active usage verification should be marked registered (regardless of other signals)
-    if (hasActiveUsageIndicators) {
-        finalStatus = DomainAvailabilityStatus.REGISTERED;
-        reasons.push("High Confidence: Found active usage indicators (verification TXT records), domain is in use.");
-        
-        // Add additional context if we also have other signals
-        if (noErrorWithRecordsCount > 0) {
-            reasons.push("-> Also confirmed by NS/SOA records.");
-        }
-        
-        // Still note parking signals if present
-        if (hasStrongParkingSignal) {
-            reasons.push(`-> Domain also shows parking signals (NS: ${parkedNsCount}, TXT Park: ${parkedTxtConsensusCount}, Wildcard: ${isWildcard}).`);
-        }
-    }
-    // Priority 2: Conclusive Registered (NOERROR + Records)
-    else if (noErrorWithRecordsCount > 0) {
-        finalStatus = DomainAvailabilityStatus.REGISTERED;
-        reasons.push("High Confidence: Found authoritative NS/SOA records, indicating the domain is registered.");
-        // Add parking/premium *hints* based on NS/TXT, but don't change status to PREMIUM here
-        if (hasStrongParkingSignal) {
-            reasons.push(`-> Domain appears potentially parked/premium based on NS/TXT signals. (NS: ${parkedNsCount}, TXT Park: ${parkedTxtConsensusCount}, TXT Premium: ${premiumTxtConsensusCount}, Wildcard: ${isWildcard}). Matched Premium TXT: [${Array.from(uniquePremiumTxtPatterns).join(', ')}]`);
-        } else if (hasPremiumTxtSignalConsensus) {
-             reasons.push(`-> Premium TXT patterns detected by consensus, potentially indicating a premium domain for sale. Matched TXT: [${Array.from(uniquePremiumTxtPatterns).join(', ')}]`);
-        }
-    }
-    // Priority 3: Conclusive Available (NXDOMAIN Consensus, No Wildcard/Conflicts)
-    else if (nxDomainCount > 0 && noErrorWithRecordsCount === 0 && servFailCount === 0) {
-         if (!isWildcard && nxDomainCount >= distinctProviderResponses) {
-            finalStatus = DomainAvailabilityStatus.AVAILABLE;
-            reasons.push("High Confidence: All responding providers reported NXDOMAIN (Not Found) without conflicting signals.");
-             // *After* determining available, check if TXT suggested premium (unlikely but possible for misconfigured available domains)
-             if (hasPremiumTxtSignalConsensus) {
-                 reasons.push(`-> Warning: Domain appears available (NXDOMAIN), but conflicting Premium TXT patterns were detected. Status uncertain. Matched TXT: [${Array.from(uniquePremiumTxtPatterns).join(', ')}]`);
-                 finalStatus = DomainAvailabilityStatus.INDETERMINATE; // Downgrade confidence
-             }
-        } else if (!isWildcard && nxDomainCount > 0 && (nxDomainCount + networkOrTimeoutErrorCount + otherDnsErrorCount) >= distinctProviderResponses) {
-             finalStatus = DomainAvailabilityStatus.AVAILABLE;
-             reasons.push("Moderate Confidence: At least one provider reported NXDOMAIN with no conflicting registration signals.");
-              if (hasPremiumTxtSignalConsensus) {
-                 reasons.push(`-> Warning: Domain appears available (NXDOMAIN), but conflicting Premium TXT patterns were detected. Status uncertain. Matched TXT: [${Array.from(uniquePremiumTxtPatterns).join(', ')}]`);
-                 finalStatus = DomainAvailabilityStatus.INDETERMINATE; // Downgrade confidence
-             }
-        } else if (isWildcard) {
-            // If NXDOMAIN + Wildcard, check for strong parking/premium TXT signals
-            if (hasStrongParkingSignal || hasPremiumTxtSignalConsensus) {
-                 finalStatus = DomainAvailabilityStatus.REGISTERED; // Wildcard + Parking/Premium hints usually means registered/parked
-                 reasons.push("Low Confidence: NXDOMAIN with wildcard, but strong parking/premium TXT/NS signals suggest it's likely registered/parked.");
-                 if (hasPremiumTxtSignalConsensus) reasons.push(`-> Premium TXT patterns detected: [${Array.from(uniquePremiumTxtPatterns).join(', ')}]`);
-            } else {
-                 finalStatus = DomainAvailabilityStatus.INDETERMINATE;
-                 reasons.push("Low Confidence: NXDOMAIN received, but wildcard detection makes status uncertain without parking/premium signals.");
-            }
-        } else {
-             finalStatus = DomainAvailabilityStatus.INDETERMINATE;
-             reasons.push("Low Confidence: Mixed results including NXDOMAIN, status uncertain.");
-        }
-    }
-    // Priority 4: Premium based ONLY on TXT Consensus (if not already Registered/Available)
-    else if (hasPremiumTxtSignalConsensus && noErrorWithRecordsCount === 0 && nxDomainCount === 0 ) {
-         finalStatus = DomainAvailabilityStatus.PREMIUM;
-         reasons.push(`Moderate Confidence: Premium status inferred primarily from consensus on specific TXT records indicating domain is for sale/premium. Matched TXT: [${Array.from(uniquePremiumTxtPatterns).join(', ')}]`);
-          if (hasStrongParkingSignal && !reasons[reasons.length-1].includes("Parking signals")) { // Add parking info if relevant and not redundant
-             reasons.push(`-> Parking signals also detected (NS: ${parkedNsCount}, TXT Park: ${parkedTxtConsensusCount}, Wildcard: ${isWildcard}), supporting premium/reserved classification.`);
-         }
+    // Local DNSSEC validation outcome, independent of any resolver's AD flag
+    const dnssecValidated = dnssecResult?.status === 'secure'
+    if (dnssecResult) {
+        const unverifiedAd = resolverClaimedAd && !dnssecValidated ? '; a resolver claimed AD, but the chain of trust could not be verified locally' : ''
+        evidence.push(createEvidence('dnssec', 'neutral', { detail: `${dnssecResult.status} (${dnssecResult.reason})${unverifiedAd}` }))
     }
-    // Priority 5: Likely Registered (SERVFAIL, errors suggesting existence, OR strong parking without clear NOERROR/NXDOMAIN/PremiumTXT)
-    else if (servFailCount > 0 || (totalErrorsSuggestingDomainExists >= consensusThreshold && distinctProviderResponses > 0) || (hasStrongParkingSignal && noErrorWithRecordsCount === 0 && nxDomainCount === 0)) {
-        finalStatus = DomainAvailabilityStatus.REGISTERED;
-        if (servFailCount > 0) {
-            reasons.push("Moderate Confidence: DNS server failures (SERVFAIL) often occur with registered but misconfigured domains.");
-        } else if (totalErrorsSuggestingDomainExists >= consensusThreshold) {
-            reasons.push("Moderate Confidence: Multiple errors suggesting domain likely exists but has DNS issues.");
-        } else {
-            reasons.push("Moderate Confidence: Strong parking signals without clear NOERROR/NXDOMAIN suggest domain is registered and parked.");
-        }
-    }
-    // Priority 6: Indeterminate
-     else if (noErrorWithoutRecordsCount > 0) {
-        finalStatus = DomainAvailabilityStatus.INDETERMINATE;
-        reasons.push("Low Confidence: Received NOERROR status but without confirming NS/SOA records. Status uncertain.");
-         if (isWildcard) reasons.push("-> Wildcard DNS detected, adding to uncertainty.");
-    }
-    // Priority 7: Error
-    else if ((networkOrTimeoutErrorCount + otherDnsErrorCount) === totalResponses && totalResponses > 0) {
-        finalStatus = DomainAvailabilityStatus.ERROR;
-        reasons.push("Error: Failed to get conclusive DNS status due to network issues or server errors.");
-    } else {
-        // Default fallback
-        finalStatus = DomainAvailabilityStatus.INDETERMINATE;
-         reasons.push("Indeterminate: Could not determine a confident status based on mixed or inconclusive results.");
-        if ((networkOrTimeoutErrorCount + otherDnsErrorCount + servFailCount) === totalResponses && totalResponses > 0) {
-             finalStatus = DomainAvailabilityStatus.ERROR;
-        }
+
+    // Authenticated denial of existence: a validated NSEC/NSEC3 proof that the name is not in the TLD zone.
+    // Opt-out NSEC3 only proves there is no *signed* delegation, so it is reported but not relied upon.
+    const denialProof = dnssecValidated ? dnssecResult?.denial : undefined
+    const hasProvenDenial = denialProof?.proven === true && !denialProof.optOut
+    if (denialProof) {
+        evidence.push(createEvidence('denial-proof', hasProvenDenial ? 'available' : 'neutral', {
+            values: [denialProof.method],
+            detail: `${denialProof.proven ? 'proof verified' : 'proof incomplete'} - ${denialProof.reason}`,
+            weight: hasProvenDenial ? 1 : 0
+        }))
     }
 
+    // Parking is reported when most responding providers see it
+    const consensusThreshold = Math.max(1, Math.ceil(processedProviders.size / 2))
+    const providersReporting = (predicate: (item: Evidence) => boolean) => new Set(evidence.filter(predicate).map(item => item.provider)).size
+    const isParkedNs = (item: Evidence) => item.kind === 'parked-ns' && item.weight >= PARKED_NS_WEIGHT
+    const isParkedTxt = (item: Evidence) => item.kind === 'txt-pattern' && item.weight >= PARKED_TXT_WEIGHT
+    const parkedNsCount = providersReporting(isParkedNs)
+    const parkedTxtConsensusCount = providersReporting(isParkedTxt)
+
+    // The service most providers name, nameservers before TXT markers
+    const namedServices = (predicate: (item: Evidence) => boolean) => evidence.filter(item => predicate(item) && item.service).map(item => item.service as string)
+    const services = [...namedServices(isParkedNs), ...namedServices(isParkedTxt)]
+    const parkingService = services.sort((a, b) => services.filter(service => service === b).length - services.filter(service => service === a).length)[0]
+
+    // Weigh the evidence; the verdict and what each rule made of it join the evidence
+    const verdict = scoreVerdict(evidence, { domain, policy }, scoringRules, scoringThresholds)
+    const finalStatus = VERDICT_STATUSES[verdict.status]
+    verdict.contributions.forEach(contribution => {
+        const direction: EvidenceDirection = contribution.points > 0 ? 'registered' : contribution.points < 0 ? 'available' : 'neutral'
+        const rulesOut = contribution.rulesOut ? `; rules out ${contribution.rulesOut}` : ''
+        evidence.push(createEvidence('verdict', direction, {
+            weight: Math.abs(contribution.points),
+            values: [contribution.rule],
+            detail: `${contribution.reason} (${contribution.points > 0 ? '+' : ''}${contribution.points.toFixed(1)}${rulesOut})`
+        }))
+    })
+    evidence.push(createEvidence('verdict', verdict.status === 'available' ? 'available' : verdict.status === 'registered' || verdict.status === 'premium' ? 'registered' : 'neutral', {
+        confidence: verdict.confidence >= 80 ? 'high' : verdict.confidence >= 50 ? 'moderate' : 'low',
+        detail: `${statusMessages[finalStatus]}, confidence ${verdict.confidence}/100 (${Math.round(verdict.registeredProbability * 100)}% likely registered)`
+    }))
+
     return {
         domain,
         status: finalStatus,
+        confidence: verdict.confidence,
         error: finalStatus === DomainAvailabilityStatus.ERROR,
         errorCategory: finalStatus === DomainAvailabilityStatus.ERROR ? primaryErrorCategory : undefined,
         errorMessage: finalStatus === DomainAvailabilityStatus.ERROR ? primaryErrorMessage : undefined,
         link: generateLink(domain, finalStatus),
-        confidenceReasons: reasons,
+        evidence,
         dnssecValidated,
-        wildcardDetected: isWildcard || isKnownWildcardTld,
+        dnssecStatus: dnssecResult?.status,
+        resolverClaimedAd,
+        denialProof,
+        wildcardDetected: evidence.some(item => item.kind === 'wildcard'),
         isParkedByNs: parkedNsCount >= consensusThreshold,
-        isParkedByTxt: parkedTxtConsensusCount >= consensusThreshold
+        isParkedByTxt: parkedTxtConsensusCount >= consensusThreshold,
+        parkingService
     }
 }
 
@@ -1330,204 +1578,27 @@ const interpretCombinedResults = (
     }
   }
 
-  // Checks for wildcard DNS by querying a random subdomain
- const checkWildcardDNS = async (domain: string): Promise<boolean> => {
-    // Generate a highly random string unlikely to exist
-    const randomSubdomain = `check-${Math.random().toString(36).substring(2, 10)}-${Date.now().toString(36)}`
-    const wildcardTestDomain = `${randomSubdomain}.${domain}`
-
-    // Use a rotating provider for this check to distribute load/avoid bias
-    const providerUrl = getNextProviderUrl()
-    const providerConfig = getProviderConfigFromUrl(providerUrl)
-    const providerName = providerConfig?.name ?? 'Unknown Provider'
-
-    try {
-      // Use 'A' record type as it's common for wildcards to resolve to an IP
-      const data = await fetchDnsJson(providerUrl, wildcardTestDomain, DNS_RECORD_TYPE_A)
-
-      // A wildcard is likely if a random subdomain resolves successfully (NOERROR)
-      // AND provides an Answer (e.g., A record) or Authority (e.g., SOA record indicating zone exists)
-      const hasResolvingAnswer = data.Answer?.some(r => [DNS_RECORD_TYPE_A, 5 /* CNAME */, 28 /* AAAA */].includes(r.type)) ?? false;
-      const isWildcardDetected = data.Status === DNS_STATUS_NOERROR && hasResolvingAnswer;
-
-      if (isWildcardDetected) {
-        console.info(`[Domain Check] Wildcard detected for ${domain} via ${providerName} using ${wildcardTestDomain}`)
-      } else {
-         console.info(`[Domain Check] No wildcard detected for ${domain} via ${providerName} using ${wildcardTestDomain} (Status: ${data.Status}, Answers: ${data.Answer?.length ?? 0})`)
-      }
-      return isWildcardDetected
-
-    } catch (error) {
-       // Log the error but don't block the main check; treat as "wildcard not detected" or "detection failed"
-      const { message } = handleError(`Wildcard Check (${providerName})`, error as Error, domain)
-      console.warn(`[Domain Check] Wildcard check failed for ${domain} via ${providerName}: ${message}. Proceeding as non-wildcard.`)
-      // Re-throw the error so the caller (checkDomainAvailability) knows the check failed
-      throw error
-    }
-  }
-
-  // Updated helper function to analyze TXT records for parking and premium domain patterns
-  const analyzeTxtRecordsForParking = (data: DoHJsonResponse): {
-    isParked: boolean,
-    isPremium: boolean,
-    confidence: number,
-    matchedPatterns: string[],
-    hasActiveUsageIndicators: boolean
-  } => {
-    if (!data.Answer || data.Answer.length === 0) {
-        return { isParked: false, isPremium: false, confidence: 0, matchedPatterns: [], hasActiveUsageIndicators: false };
-    }
-
-    const patternsFound = new Set<string>();
-    let hasSpf = false, hasDkim = false, hasDmarc = false,
-        hasWildcard = false, hasRegistrarMarker = false, hasPremiumMarker = false,
-        hasVerificationTxt = false;
-
-    data.Answer.forEach(record => {
-        if (record.type === DNS_RECORD_TYPE_TXT && typeof record.data === 'string') {
-            const txtData = record.data.trim().replace(/^"|"$/g, '');
-            const name = record.name.toLowerCase();
-
-            // Helper function to safely test regex with more descriptive pattern naming
-            const testPattern = (patterns: RegExp[], category: string) => {
-                patterns.forEach(pattern => {
-                    try {
-                        if (pattern.test(txtData)) {
-                            let patternDescription = '';
-                            
-                            // More descriptive pattern names based on category
-                            switch(category) {
-                                case 'SPF': 
-                                    hasSpf = true; 
-                                    patternDescription = "Restrictive SPF Policy (-all)"; 
-                                    break;
-                                case 'DKIM': 
-                                    if (name.includes('_domainkey')) { 
-                                        hasDkim = true; 
-                                        patternDescription = "Null DKIM Configuration"; 
-                                    }
-                                    break;
-                                case 'DMARC': 
-                                    if (name.startsWith('_dmarc.') || name === '_dmarc') { 
-                                        hasDmarc = true; 
-                                        patternDescription = "Restrictive DMARC Policy"; 
-                                    }
-                                    break;
-                                case 'REGISTRAR': 
-                                    hasRegistrarMarker = true; 
-                                    // Match more specific registrar patterns for better descriptions
-                                    if (txtData.includes('parkingcrew')) {
-                                        patternDescription = "ParkingCrew Parking Service";
-                                    } else if (txtData.includes('sedoparking')) {
-                                        patternDescription = "Sedo Parking Service";
-                                    } else if (txtData.includes('domain_control_validation')) {
-                                        patternDescription = "Domain Control Validation";
-                                    } else {
-                                        patternDescription = "Registrar Parking Marker";
-                                    }
-                                    break;
-                                case 'PREMIUM':
-                                    hasPremiumMarker = true;
-                                    // Match more specific premium patterns for better descriptions
-                                    if (pattern.toString().includes('premium')) {
-                                        patternDescription = "Premium Domain Marker";
-                                    } else if (pattern.toString().includes('for[-_]?sale')) {
-                                        patternDescription = "Domain For Sale Marker";
-                                    } else if (pattern.toString().includes('inquire')) {
-                                        patternDescription = "Domain Purchase Inquiry";
-                                    } else if (pattern.toString().includes('domainbroker')) {
-                                        patternDescription = "Domain Broker Reference";
-                                    } else if (pattern.toString().includes('reserve')) {
-                                        patternDescription = "Reserved Domain";
-                                    } else {
-                                        patternDescription = "Generic Premium Domain Marker";
-                                    }
-                                    break;
-                                case 'ACTIVE_USAGE':
-                                    hasVerificationTxt = true;
-                                    // Provide specific verification type descriptions
-                                    if (pattern.toString().includes('google-site-verification')) {
-                                        patternDescription = "Google Site Verification";
-                                    } else if (pattern.toString().includes('ms=ms')) {
-                                        patternDescription = "Microsoft Verification";
-                                    } else if (pattern.toString().includes('facebook')) {
-                                        patternDescription = "Facebook Domain Verification";
-                                    } else if (pattern.toString().includes('apple')) {
-                                        patternDescription = "Apple Domain Verification";
-                                    } else if (pattern.toString().includes('docusign')) {
-                                        patternDescription = "DocuSign Verification";
-                                    } else if (pattern.toString().includes('stripe')) {
-                                        patternDescription = "Stripe Verification";
-                                    } else {
-                                        patternDescription = "Service Verification TXT";
-                                    }
-                                    break;
-                            }
-                            
-                            if (patternDescription) {
-                                patternsFound.add(patternDescription);
-                            }
-                        }
-                    } catch (e) {
-                        console.error(`Regex error testing pattern ${pattern} on data: ${txtData}`, e);
-                    }
-                });
-            };
-
-            // Check for wildcard protection
-            if (name.startsWith('*.') || name.includes('.*')) {
-                if (!patternsFound.has("Wildcard DNS Protection")) { // Add only once
-                    hasWildcard = true;
-                    patternsFound.add("Wildcard DNS Protection");
-                }
-            }
-
-            // Test each category
-            testPattern(PARKING_PATTERNS.SPF, 'SPF');
-            testPattern(PARKING_PATTERNS.DKIM, 'DKIM');
-            testPattern(PARKING_PATTERNS.DMARC, 'DMARC');
-            testPattern(PARKING_PATTERNS.REGISTRAR, 'REGISTRAR');
-            testPattern(PARKING_PATTERNS.PREMIUM, 'PREMIUM');
-            testPattern(PARKING_PATTERNS.ACTIVE_USAGE, 'ACTIVE_USAGE');
-        }
-    });
-
-    // Calculate confidence score with weighted factors
-    let confidence = 0;
-    if (hasSpf) confidence += 25;
-    if (hasDkim) confidence += 20;
-    if (hasDmarc) confidence += 15;
-    if (hasWildcard) confidence += 15;
-    if (hasRegistrarMarker) confidence += 30; // Strongest signal for general parking
-    confidence = Math.min(confidence, 100);
-
-    // More refined determination of premium status
-    const isParked = confidence >= 40;
-    // Premium marker explicitly indicates a premium domain
-    // OR high confidence parking with certain pattern combinations suggests premium/for sale
-    const isPremium = hasPremiumMarker || 
-                     (isParked && confidence >= 70 && 
-                      (patternsFound.has("Domain For Sale Marker") || 
-                       patternsFound.has("Domain Broker Reference")));
-
-    return {
-        isParked,
-        isPremium,
-        confidence,
-        matchedPatterns: Array.from(patternsFound),
-        hasActiveUsageIndicators: hasVerificationTxt
-    };
-  };
 
 
   return {
     checkDomains,
-    results, // The reactive array of results
+    results, // The reactive array of results, filled in as each domain completes
+    pendingDomains, // Domains of the running check still waiting for a result
     progress,
     isChecking,
     groupedResults, // Computed property for easy filtering
     statusMessages, // Map of enum values to display strings
-    stageMessages // Map of stages to descriptive messages
+    stageMessages, // Map of stages to descriptive messages
+    getDnsCacheStats: () => sharedDnsCache.getStats(), // DNS response cache hit/miss counters for debugging
+    consensusPolicy, // The policy verdicts are currently reached under
+    setConsensusPolicy,
+    providerHealth, // Per-provider latency, error rate and circuit state
+    resetProviderHealth: () => healthTracker.reset(),
+    dnsSessionMode, // 'live', 'recording' or 'replaying'
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay
   }
 }
 
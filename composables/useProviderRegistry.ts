@@ -0,0 +1,76 @@
+import { ref, getCurrentScope, onScopeDispose } from 'vue'
+import { probeProvider, sharedProviderRegistry } from '~/utils/ProviderRegistry'
+import type { ProviderEntry, ProviderRole } from '~/utils/ProviderRegistry'
+
+export function useProviderRegistry() {
+  const providers = ref<ProviderEntry[]>(sharedProviderRegistry.list())
+  // Ids of the providers being probed
+  const probing = ref<string[]>([])
+  const error = ref('')
+
+  const unsubscribe = sharedProviderRegistry.subscribe(() => {
+    providers.value = sharedProviderRegistry.list()
+  })
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe)
+  }
+
+  const run = async (action: () => void | Promise<void>) => {
+    error.value = ''
+    try {
+      await action()
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e)
+    }
+  }
+
+  // Probe a new endpoint before registering it; it's queried in the format it supports, JSON preferred
+  const addProvider = (name: string, url: string, role: ProviderRole = 'fallback') => run(async () => {
+    probing.value = [...probing.value, url]
+    try {
+      const capabilities = await probeProvider(url)
+      if (capabilities.error) {
+        throw new Error(`${url} did not answer DoH queries: ${capabilities.error}`)
+      }
+      sharedProviderRegistry.add({ name: name.trim() || new URL(url).hostname, url, role, format: capabilities.json ? 'json' : 'wire', capabilities })
+    } finally {
+      probing.value = probing.value.filter(id => id !== url)
+    }
+  })
+
+  const reprobeProvider = (id: string) => run(async () => {
+    const entry = sharedProviderRegistry.get(id)
+    if (!entry) return
+
+    probing.value = [...probing.value, id]
+    try {
+      const capabilities = await probeProvider(entry.url)
+      // Keep the format unless the probe found it no longer works
+      const format = capabilities[entry.format] ? entry.format : capabilities.json ? 'json' : capabilities.wire ? 'wire' : entry.format
+      sharedProviderRegistry.update(id, { capabilities, format })
+    } finally {
+      probing.value = probing.value.filter(probed => probed !== id)
+    }
+  })
+
+  const setProviderRole = (id: string, role: ProviderRole) => run(() => sharedProviderRegistry.update(id, { role }))
+
+  // Only providers with an `odoh` target can be switched to Oblivious DoH
+  const setProviderOblivious = (id: string, oblivious: boolean) => run(() => sharedProviderRegistry.update(id, { oblivious }))
+
+  const removeProvider = (id: string) => run(() => sharedProviderRegistry.remove(id))
+
+  const resetProviders = () => run(() => sharedProviderRegistry.reset())
+
+  return {
+    providers,
+    probing,
+    error,
+    addProvider,
+    reprobeProvider,
+    setProviderRole,
+    setProviderOblivious,
+    removeProvider,
+    resetProviders
+  }
+}
@@ -0,0 +1,31 @@
+import { ref, getCurrentScope, onScopeDispose } from 'vue'
+import { sharedResultCache } from '~/composables/useDomainCheck'
+import type { DomainResult } from '~/composables/useDomainCheck'
+import type { ResultCacheEntry } from '~/utils/ResultCache'
+
+export function useResultCache() {
+  // Most recently checked first
+  const entries = ref<ResultCacheEntry<DomainResult>[]>([])
+
+  const refresh = async () => {
+    entries.value = await sharedResultCache.list()
+  }
+
+  // Changes from checks, and from other tabs
+  const unsubscribe = sharedResultCache.subscribe(() => { void refresh() })
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe)
+  }
+  void refresh()
+
+  const removeEntry = (domain: string) => sharedResultCache.delete(domain)
+
+  const clearCache = () => sharedResultCache.clear()
+
+  return {
+    entries,
+    refresh,
+    removeEntry,
+    clearCache
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Update the parking nameserver database from the MISP parking-domain-ns warning list
+ *
+ *   npm run update-parking-providers [-- <path or URL of a MISP list.json>]
+ *
+ * Zones new to the list are added to utils/parkingProviders.json, next to the zones of the same domain when it
+ * is already known, otherwise as a provider named after that domain in the "parking" category; name and
+ * categorize those by hand before committing. Zones the list no longer has are reported but kept, as they
+ * may have been curated.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+const DEFAULT_SOURCE = 'https://raw.githubusercontent.com/MISP/misp-warninglists/main/lists/parking-domain-ns/list.json';
+const DATABASE = new URL('../utils/parkingProviders.json', import.meta.url);
+
+// Same as normalizeHostname in utils/ParkingProviders.ts
+const normalizeHostname = name => name.trim().toLowerCase().replace(/\.+$/, '');
+
+// The last two labels, e.g. "sedoparking.com" for "ns1.sedoparking.com"
+const baseDomain = hostname => hostname.split('.').slice(-2).join('.');
+
+const readList = async source => {
+  if (!/^https?:\/\//.test(source)) {
+    return JSON.parse(await readFile(source, 'utf8'));
+  }
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${source}: HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+const main = async () => {
+  const source = process.argv[2] ?? DEFAULT_SOURCE;
+  const list = await readList(source);
+  if (!Array.isArray(list.list) || list.type !== 'hostname') {
+    throw new Error(`${source} is not a MISP hostname warning list`);
+  }
+
+  const database = JSON.parse(await readFile(DATABASE, 'utf8'));
+  const known = new Set(database.providers.flatMap(provider => provider.zones.map(normalizeHostname)));
+  const listed = new Set(list.list.map(normalizeHostname).filter(Boolean));
+
+  const added = [];
+  for (const zone of listed) {
+    if (known.has(zone)) continue;
+    const base = baseDomain(zone);
+    const sibling = database.providers.find(provider => provider.zones.some(existing => baseDomain(normalizeHostname(existing)) === base));
+    if (sibling) {
+      sibling.zones.push(zone);
+    } else {
+      database.providers.push({ name: base, category: 'parking', zones: [zone] });
+    }
+    known.add(zone);
+    added.push(zone);
+  }
+
+  for (const provider of database.providers) {
+    provider.zones = [...new Set(provider.zones.map(normalizeHostname))].sort();
+  }
+  database.providers.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()) || a.category.localeCompare(b.category));
+  database.source = source;
+  if (list.version !== undefined) {
+    database.version = list.version;
+  }
+  await writeFile(DATABASE, `${JSON.stringify(database, null, 2)}\n`);
+
+  const dropped = [...known].filter(zone => !listed.has(zone));
+  console.log(`${added.length} zone(s) added${added.length ? `: ${added.join(', ')}` : ''}`);
+  if (dropped.length) {
+    console.log(`${dropped.length} zone(s) no longer listed, kept: ${dropped.join(', ')}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * DoH JSON API (`?name=&type=`) backed by DNS over TLS or TCP
+ * Lets the browser query resolvers that don't offer DoH, and compare answers across protocols,
+ * by running the query from the Worker (or Node), where raw sockets are available.
+ */
+
+import { DohResolver, DohTimeoutError } from '../../utils/DohResolver'
+import { SocketTransport } from '../../utils/DnsTransport'
+import { parseRecordType } from '../../utils/DnsMessage'
+
+const TIMEOUT_MS = 5000
+
+// Upstreams are fixed so the route can't be pointed at arbitrary hosts.
+// Cloudflare Workers can't open sockets to Cloudflare's own ranges, so 1.1.1.1 isn't listed.
+const UPSTREAMS: Record<string, SocketTransport> = {
+  'quad9-tls': new SocketTransport({ hostname: 'dns.quad9.net', tls: true }),
+  'google-tls': new SocketTransport({ hostname: 'dns.google', tls: true }),
+  'quad9-tcp': new SocketTransport({ hostname: '9.9.9.9', tls: false })
+}
+
+export default defineEventHandler(async (event) => {
+  const { name, type = 'A', upstream = 'quad9-tls', do: dnssecOk, cd: checkingDisabled } = getQuery(event)
+
+  if (typeof name !== 'string' || name.length === 0) {
+    throw createError({ statusCode: 400, statusMessage: 'Missing name' })
+  }
+  const transport = typeof upstream === 'string' ? UPSTREAMS[upstream] : undefined
+  if (!transport) {
+    throw createError({ statusCode: 400, statusMessage: `Unknown upstream ${upstream}; use one of ${Object.keys(UPSTREAMS).join(', ')}` })
+  }
+
+  let qtype: number
+  try {
+    qtype = parseRecordType(String(type))
+  } catch {
+    throw createError({ statusCode: 400, statusMessage: `Unknown record type ${type}` })
+  }
+
+  const resolver = new DohResolver(transport.id, undefined, transport)
+  try {
+    const response = await resolver.query(name, qtype, 'POST', {}, TIMEOUT_MS, {
+      dnssecOk: dnssecOk === '1' || dnssecOk === 'true',
+      checkingDisabled: checkingDisabled === '1' || checkingDisabled === 'true',
+      paddingBlockSize: 128
+    })
+    setResponseHeader(event, 'content-type', 'application/dns-json')
+    return response
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw createError({ statusCode: error instanceof DohTimeoutError ? 504 : 502, statusMessage: message })
+  }
+})
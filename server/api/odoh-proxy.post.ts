@@ -0,0 +1,43 @@
+/**
+ * Oblivious DoH proxy (RFC 9230 section 5)
+ * Relays encrypted queries to an allowed target so the target never sees the client's IP.
+ * The payload is opaque here: the proxy can't read queries, and forwards no client-identifying headers.
+ */
+
+const ODOH_CONTENT_TYPE = 'application/oblivious-dns-message'
+
+// Only relay to known targets so the route can't be used as an open proxy
+const ALLOWED_TARGETS = new Set([
+  'odoh.cloudflare-dns.com'
+])
+
+export default defineEventHandler(async (event) => {
+  const { targethost, targetpath } = getQuery(event)
+
+  if (typeof targethost !== 'string' || typeof targetpath !== 'string' || !targetpath.startsWith('/')) {
+    throw createError({ statusCode: 400, statusMessage: 'Missing targethost or targetpath' })
+  }
+  if (!ALLOWED_TARGETS.has(targethost.toLowerCase())) {
+    throw createError({ statusCode: 403, statusMessage: `Target ${targethost} is not allowed` })
+  }
+  if (!getRequestHeader(event, 'content-type')?.includes(ODOH_CONTENT_TYPE)) {
+    throw createError({ statusCode: 415, statusMessage: `Expected ${ODOH_CONTENT_TYPE}` })
+  }
+
+  const body = await readRawBody(event, false)
+  if (!body || body.length === 0) {
+    throw createError({ statusCode: 400, statusMessage: 'Empty ODoH message' })
+  }
+
+  const response = await fetch(`https://${targethost}${targetpath}`, {
+    method: 'POST',
+    headers: { 'Accept': ODOH_CONTENT_TYPE, 'Content-Type': ODOH_CONTENT_TYPE },
+    body: new Uint8Array(body)
+  })
+
+  // Pass the target's status through (e.g. 401 when our key config is stale) along with the opaque body
+  setResponseStatus(event, response.status, response.statusText)
+  setResponseHeader(event, 'content-type', response.headers.get('content-type') ?? ODOH_CONTENT_TYPE)
+  setResponseHeader(event, 'cache-control', 'no-store')
+  return new Uint8Array(await response.arrayBuffer())
+})
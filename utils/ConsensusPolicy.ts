@@ -0,0 +1,77 @@
+/**
+ * Consensus policies
+ * How much agreement between providers a verdict needs: the quorum, which providers are asked first,
+ * what a SERVFAIL means and whether a wildcard probe can block an AVAILABLE verdict.
+ */
+
+/**
+ * What a SERVFAIL response is taken to mean
+ * - registered: the domain exists but its DNS is broken (the usual cause)
+ * - indeterminate: the status can't be told
+ * - ignore: the response is treated as no answer, leaving the verdict to the other providers
+ */
+export type ServfailHandling = 'registered' | 'indeterminate' | 'ignore';
+
+/**
+ * What a detected wildcard does to NXDOMAIN answers
+ * - downgrade: the domain can't be called available without a DNSSEC proof
+ * - ignore: NXDOMAIN answers stand; the wildcard is only reported
+ */
+export type WildcardHandling = 'downgrade' | 'ignore';
+
+export interface ConsensusPolicy {
+  /** Providers that must agree on NXDOMAIN or a delegation; disagreement escalates to more providers until reached */
+  quorum: number;
+  /** Provider keys (e.g. "cloudflare", "google") asked first, or "auto" to pick the healthiest */
+  primaryProviders: string[] | 'auto';
+  /** Only call a domain available if every response, from every provider and query, was NXDOMAIN */
+  requireUnanimousNxDomain: boolean;
+  servfail: ServfailHandling;
+  wildcard: WildcardHandling;
+}
+
+export type ConsensusPreset = 'balanced' | 'conservative' | 'optimistic';
+
+export const CONSENSUS_PRESETS: Record<ConsensusPreset, ConsensusPolicy> = {
+  balanced: {
+    quorum: 2,
+    primaryProviders: 'auto',
+    requireUnanimousNxDomain: false,
+    servfail: 'registered',
+    wildcard: 'downgrade'
+  },
+  // For buying decisions: a false "available" costs more than a missed one
+  conservative: {
+    quorum: 3,
+    primaryProviders: 'auto',
+    requireUnanimousNxDomain: true,
+    servfail: 'registered',
+    wildcard: 'downgrade'
+  },
+  // For brainstorming: surface every name that might be free
+  optimistic: {
+    quorum: 1,
+    primaryProviders: 'auto',
+    requireUnanimousNxDomain: false,
+    servfail: 'ignore',
+    wildcard: 'ignore'
+  }
+};
+
+export const CONSENSUS_PRESET_DESCRIPTIONS: Record<ConsensusPreset, string> = {
+  balanced: 'Two providers must agree; SERVFAIL and wildcards count against availability',
+  conservative: 'Three providers must agree; available only if every provider answers NXDOMAIN',
+  optimistic: 'One NXDOMAIN is enough; SERVFAIL and wildcards are ignored'
+};
+
+/**
+ * Resolve a preset name or partial policy to a full policy
+ * @param policy a preset, or overrides of the balanced preset
+ * @returns The policy
+ */
+export function resolveConsensusPolicy(policy: ConsensusPreset | Partial<ConsensusPolicy> = 'balanced'): ConsensusPolicy {
+  if (typeof policy === 'string') {
+    return { ...CONSENSUS_PRESETS[policy] };
+  }
+  return { ...CONSENSUS_PRESETS.balanced, ...policy };
+}
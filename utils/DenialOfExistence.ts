@@ -0,0 +1,259 @@
+/**
+ * Authenticated denial of existence (RFC 4035 section 5.4, RFC 5155 section 8)
+ * Checks that validated NSEC/NSEC3 records really prove a name does not exist in its zone.
+ * Signature verification is the caller's job: only pass records whose RRSIGs verified.
+ */
+
+import { DnsRecordType } from './DohResolver';
+import type { DnsResourceRecord } from './DohResolver';
+import { encodeName, fromBase32Hex, fromHex, nameToLabels, normalizeName, toBase32Hex } from './DnsMessage';
+
+// NSEC3 hash algorithm 1 is SHA-1, the only one defined (RFC 5155 section 11)
+const NSEC3_HASH_SHA1 = 1;
+const NSEC3_FLAG_OPT_OUT = 0x01;
+
+// Validators may treat zones with higher iteration counts as insecure (RFC 9276 section 3.2)
+const MAX_NSEC3_ITERATIONS = 150;
+
+/**
+ * Result of checking a name error (NXDOMAIN) proof
+ */
+export interface DenialProof {
+  /** The records prove the name and any wildcard that could synthesize it are absent */
+  proven: boolean;
+  method: 'nsec' | 'nsec3';
+  /**
+   * The NSEC3 covering the next closer name has the Opt-Out flag, so only the absence of a
+   * signed delegation is proven; an unsigned delegation could still exist (RFC 5155 section 6)
+   */
+  optOut: boolean;
+  closestEncloser?: string;
+  reason: string;
+}
+
+interface ParsedNsec3 {
+  zone: string;
+  ownerHash: string;
+  nextHash: string;
+  hashAlgorithm: number;
+  flags: number;
+  iterations: number;
+  salt: Uint8Array;
+}
+
+/**
+ * Compare two names in canonical DNS order (RFC 4034 section 6.1)
+ * @param a the first domain name
+ * @param b the second domain name
+ * @returns A negative number if a sorts before b, positive if after, 0 if equal
+ */
+export function compareCanonicalNames(a: string, b: string): number {
+  const labelsA = nameToLabels(normalizeName(a)).reverse();
+  const labelsB = nameToLabels(normalizeName(b)).reverse();
+  const length = Math.min(labelsA.length, labelsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const bytesA = new TextEncoder().encode(labelsA[i]);
+    const bytesB = new TextEncoder().encode(labelsB[i]);
+    const shared = Math.min(bytesA.length, bytesB.length);
+    for (let j = 0; j < shared; j++) {
+      if (bytesA[j] !== bytesB[j]) return bytesA[j] - bytesB[j];
+    }
+    if (bytesA.length !== bytesB.length) return bytesA.length - bytesB.length;
+  }
+  return labelsA.length - labelsB.length;
+}
+
+/**
+ * Compute the NSEC3 hash of a name (RFC 5155 section 5)
+ * @param name the domain name to hash
+ * @param salt the salt from the NSEC3/NSEC3PARAM record
+ * @param iterations the number of additional iterations
+ * @returns The base32hex-encoded hash (uppercase)
+ */
+export async function nsec3Hash(name: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const concat = (a: Uint8Array, b: Uint8Array) => {
+    const output = new Uint8Array(a.length + b.length);
+    output.set(a);
+    output.set(b, a.length);
+    return output;
+  };
+
+  let digest = new Uint8Array(await crypto.subtle.digest('SHA-1', concat(encodeName(normalizeName(name)), salt) as BufferSource));
+  for (let i = 0; i < iterations; i++) {
+    digest = new Uint8Array(await crypto.subtle.digest('SHA-1', concat(digest, salt) as BufferSource));
+  }
+  return toBase32Hex(digest);
+}
+
+/**
+ * The ancestors of a name down to (and including) the zone apex, closest first
+ */
+const ancestorsWithin = (name: string, zone: string): string[] => {
+  const labels = nameToLabels(normalizeName(name));
+  const zoneLabelCount = nameToLabels(normalizeName(zone)).length;
+  const names: string[] = [];
+  for (let i = 0; i <= labels.length - zoneLabelCount; i++) {
+    names.push(normalizeName(labels.slice(i).join('.') || '.'));
+  }
+  return names;
+};
+
+const isWithinZone = (name: string, zone: string): boolean => {
+  const normalizedName = normalizeName(name);
+  const normalizedZone = normalizeName(zone);
+  return normalizedZone === '.' || normalizedName === normalizedZone || normalizedName.endsWith(`.${normalizedZone}`);
+};
+
+/**
+ * Whether an NSEC record's owner/next span covers a name (the last NSEC wraps around to the apex)
+ */
+const nsecCovers = (owner: string, next: string, name: string): boolean => {
+  const afterOwner = compareCanonicalNames(owner, name) < 0;
+  if (compareCanonicalNames(owner, next) < 0) {
+    return afterOwner && compareCanonicalNames(name, next) < 0;
+  }
+  return afterOwner || compareCanonicalNames(name, next) < 0;
+};
+
+/**
+ * Whether an NSEC3 hash range covers a hash (the last NSEC3 wraps around)
+ */
+const nsec3Covers = (record: ParsedNsec3, hash: string): boolean => {
+  if (record.ownerHash < record.nextHash) {
+    return record.ownerHash < hash && hash < record.nextHash;
+  }
+  return hash > record.ownerHash || hash < record.nextHash;
+};
+
+/**
+ * The longest common ancestor of two names
+ */
+const commonAncestor = (a: string, b: string): string => {
+  const labelsA = nameToLabels(normalizeName(a)).reverse();
+  const labelsB = nameToLabels(normalizeName(b)).reverse();
+  const shared: string[] = [];
+  for (let i = 0; i < Math.min(labelsA.length, labelsB.length) && labelsA[i] === labelsB[i]; i++) {
+    shared.unshift(labelsA[i]);
+  }
+  return normalizeName(shared.join('.') || '.');
+};
+
+const proveWithNsec = (qname: string, records: DnsResourceRecord[]): DenialProof => {
+  const spans = records.map(record => ({
+    owner: normalizeName(record.name),
+    next: normalizeName(record.data.trim().split(/\s+/)[0])
+  }));
+
+  const covering = spans.find(span => nsecCovers(span.owner, span.next, qname));
+  if (!covering) {
+    return { proven: false, method: 'nsec', optOut: false, reason: `No NSEC record covers ${qname}` };
+  }
+
+  // The closest encloser is the deepest ancestor shared with either end of the covering span
+  const ownerAncestor = commonAncestor(qname, covering.owner);
+  const nextAncestor = commonAncestor(qname, covering.next);
+  const closestEncloser = nameToLabels(ownerAncestor).length >= nameToLabels(nextAncestor).length ? ownerAncestor : nextAncestor;
+  const wildcard = normalizeName(`*.${closestEncloser === '.' ? '' : closestEncloser}`);
+
+  if (!spans.some(span => nsecCovers(span.owner, span.next, wildcard))) {
+    return { proven: false, method: 'nsec', optOut: false, closestEncloser, reason: `No NSEC record denies the wildcard ${wildcard}` };
+  }
+
+  return {
+    proven: true,
+    method: 'nsec',
+    optOut: false,
+    closestEncloser,
+    reason: `NSEC ${covering.owner} → ${covering.next} covers ${qname}, and no wildcard exists at ${closestEncloser}`
+  };
+};
+
+const parseNsec3 = (record: DnsResourceRecord): ParsedNsec3 => {
+  const owner = normalizeName(record.name);
+  const [hashLabel, ...zoneLabels] = nameToLabels(owner);
+  const fields = record.data.trim().split(/\s+/);
+  return {
+    zone: normalizeName(zoneLabels.join('.') || '.'),
+    ownerHash: toBase32Hex(fromBase32Hex(hashLabel)),
+    nextHash: toBase32Hex(fromBase32Hex(fields[4])),
+    hashAlgorithm: parseInt(fields[0], 10),
+    flags: parseInt(fields[1], 10),
+    iterations: parseInt(fields[2], 10),
+    salt: fields[3] === '-' ? new Uint8Array(0) : fromHex(fields[3])
+  };
+};
+
+const proveWithNsec3 = async (qname: string, records: DnsResourceRecord[]): Promise<DenialProof> => {
+  const nsec3s = records.map(parseNsec3);
+  const { zone, hashAlgorithm, iterations, salt } = nsec3s[0];
+
+  if (hashAlgorithm !== NSEC3_HASH_SHA1) {
+    return { proven: false, method: 'nsec3', optOut: false, reason: `Unsupported NSEC3 hash algorithm ${hashAlgorithm}` };
+  }
+  if (iterations > MAX_NSEC3_ITERATIONS) {
+    return { proven: false, method: 'nsec3', optOut: false, reason: `NSEC3 iteration count ${iterations} exceeds ${MAX_NSEC3_ITERATIONS}` };
+  }
+  if (!isWithinZone(qname, zone) || nsec3s.some(record => record.zone !== zone)) {
+    return { proven: false, method: 'nsec3', optOut: false, reason: `NSEC3 records do not belong to the zone of ${qname}` };
+  }
+
+  // Closest encloser proof (RFC 5155 section 8.3): the closest ancestor whose hash has an NSEC3,
+  // with the next closer name (one label longer) covered by another NSEC3
+  let nextCloser: string | undefined;
+  for (const candidate of ancestorsWithin(qname, zone)) {
+    const hash = await nsec3Hash(candidate, salt, iterations);
+    const matches = nsec3s.some(record => record.ownerHash === hash);
+
+    if (matches && candidate === normalizeName(qname)) {
+      return { proven: false, method: 'nsec3', optOut: false, reason: `An NSEC3 record matches ${qname}, so the name exists` };
+    }
+    if (matches && nextCloser) {
+      const nextCloserHash = await nsec3Hash(nextCloser, salt, iterations);
+      const covering = nsec3s.find(record => nsec3Covers(record, nextCloserHash));
+      if (!covering) {
+        return { proven: false, method: 'nsec3', optOut: false, closestEncloser: candidate, reason: `No NSEC3 record covers the next closer name ${nextCloser}` };
+      }
+
+      const wildcard = normalizeName(`*.${candidate === '.' ? '' : candidate}`);
+      const wildcardHash = await nsec3Hash(wildcard, salt, iterations);
+      if (!nsec3s.some(record => nsec3Covers(record, wildcardHash))) {
+        return { proven: false, method: 'nsec3', optOut: false, closestEncloser: candidate, reason: `No NSEC3 record denies the wildcard ${wildcard}` };
+      }
+
+      const optOut = (covering.flags & NSEC3_FLAG_OPT_OUT) !== 0;
+      return {
+        proven: true,
+        method: 'nsec3',
+        optOut,
+        closestEncloser: candidate,
+        reason: optOut
+          ? `NSEC3 (opt-out) proves no signed delegation for ${nextCloser} in ${candidate}; unsigned delegations are not covered`
+          : `NSEC3 proves ${nextCloser} is not delegated in ${candidate} and no wildcard exists`
+      };
+    }
+    nextCloser = candidate;
+  }
+
+  return { proven: false, method: 'nsec3', optOut: false, reason: `No closest encloser proof found for ${qname} in ${zone}` };
+};
+
+/**
+ * Check whether validated NSEC or NSEC3 records prove a name error (NXDOMAIN)
+ * @param qname the name that was reported as non-existent
+ * @param records validated records from the Authority section
+ * @returns The proof outcome, or undefined if the records contain neither NSEC nor NSEC3
+ */
+export async function proveNameError(qname: string, records: DnsResourceRecord[]): Promise<DenialProof | undefined> {
+  const nsec3Records = records.filter(record => record.type === DnsRecordType.NSEC3);
+  if (nsec3Records.length > 0) {
+    return proveWithNsec3(qname, nsec3Records);
+  }
+
+  const nsecRecords = records.filter(record => record.type === DnsRecordType.NSEC);
+  if (nsecRecords.length > 0) {
+    return proveWithNsec(qname, nsecRecords);
+  }
+
+  return undefined;
+}
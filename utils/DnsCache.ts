@@ -0,0 +1,246 @@
+/**
+ * TTL-aware DNS response cache
+ * Caches positive answers for their minimum TTL and negative answers (NXDOMAIN/NODATA)
+ * for the SOA minimum (RFC 2308 section 5), and coalesces identical in-flight queries.
+ */
+
+import { DnsRecordType, DnsStatusCode } from './DohResolver';
+import type { DnsResponse } from './DohResolver';
+
+/**
+ * Counters for debugging cache behaviour
+ */
+export interface DnsCacheStats {
+  /** Responses served from the cache */
+  hits: number;
+  /** Of the hits, how many were cached negative answers */
+  negativeHits: number;
+  /** Queries that went to the network */
+  misses: number;
+  /** Queries that joined an identical query already in flight */
+  coalesced: number;
+  /** Responses not stored (no usable TTL, SERVFAIL etc.) */
+  uncacheable: number;
+  /** Entries currently held */
+  size: number;
+}
+
+export interface DnsCacheOptions {
+  /** Maximum number of entries before the oldest are evicted */
+  maxEntries?: number;
+  /**
+   * Upper bound on any TTL, in seconds; a day by default, below the week RFC 8767 section 4 suggests,
+   * as availability checks would rather see a changed delegation soon than save queries
+   */
+  maxTtl?: number;
+  /** Upper bound on negative TTLs, in seconds (RFC 2308 section 5) */
+  maxNegativeTtl?: number;
+}
+
+interface CacheEntry {
+  response: DnsResponse;
+  storedAt: number;
+  expiresAt: number;
+  negative: boolean;
+}
+
+// A query being fetched, and how many callers still wait for it
+interface InFlightQuery {
+  request: Promise<DnsResponse>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 2000;
+const DEFAULT_MAX_TTL = 86400;
+const DEFAULT_MAX_NEGATIVE_TTL = 10800;
+
+/**
+ * A response cache shared by resolvers. Keys should identify the server and everything
+ * about the query that can change the answer (name, type, DO/CD bits).
+ */
+export class DnsCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, InFlightQuery>();
+  private counters = { hits: 0, negativeHits: 0, misses: 0, coalesced: 0, uncacheable: 0 };
+  private maxEntries: number;
+  private maxTtl: number;
+  private maxNegativeTtl: number;
+
+  /**
+   * Creates a new DNS response cache
+   * @param options size and TTL limits
+   */
+  constructor(options: DnsCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxTtl = options.maxTtl ?? DEFAULT_MAX_TTL;
+    this.maxNegativeTtl = options.maxNegativeTtl ?? DEFAULT_MAX_NEGATIVE_TTL;
+  }
+
+  /**
+   * Return a cached response, or run the fetch once for all concurrent callers with the same key
+   * The fetch belongs to no caller: each stops waiting when its own signal aborts, and the fetch is
+   * aborted, with the last caller's reason, only once every caller waiting on it has.
+   * @param key the cache key
+   * @param fetchResponse performs the actual query on a miss; it should give up when the signal it gets aborts
+   * @param signal stops this caller waiting, rejecting with the signal's reason
+   * @returns A copy of the response, with TTLs reduced by the time it spent in the cache
+   */
+  async resolve(key: string, fetchResponse: (signal: AbortSignal) => Promise<DnsResponse>, signal?: AbortSignal): Promise<DnsResponse> {
+    const cached = this.get(key);
+    if (cached) {
+      return cached;
+    }
+    signal?.throwIfAborted();
+
+    let flight = this.inFlight.get(key);
+    if (flight) {
+      this.counters.coalesced++;
+    } else {
+      this.counters.misses++;
+      const controller = new AbortController();
+      const request = fetchResponse(controller.signal)
+        .then(response => {
+          this.set(key, response);
+          return response;
+        })
+        .finally(() => {
+          if (this.inFlight.get(key) === started) this.inFlight.delete(key);
+        });
+      const started: InFlightQuery = { request, controller, waiters: 0 };
+      flight = started;
+      this.inFlight.set(key, flight);
+    }
+
+    const joined = flight;
+    joined.waiters++;
+    return new Promise<DnsResponse>((resolve, reject) => {
+      const abort = () => {
+        reject(signal?.reason);
+        // The last caller gone, nobody wants the answer; later callers start afresh
+        if (--joined.waiters === 0) {
+          if (this.inFlight.get(key) === joined) this.inFlight.delete(key);
+          joined.controller.abort(signal?.reason);
+        }
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+      joined.request
+        .then(response => resolve(structuredClone(response)), reject)
+        .finally(() => signal?.removeEventListener('abort', abort));
+    });
+  }
+
+  /**
+   * Look up a live entry
+   * @param key the cache key
+   * @returns A copy of the response with aged TTLs, or undefined on a miss
+   */
+  get(key: string): DnsResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    const now = Date.now();
+    if (now >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.counters.hits++;
+    if (entry.negative) {
+      this.counters.negativeHits++;
+    }
+    return ageResponse(entry.response, Math.floor((now - entry.storedAt) / 1000));
+  }
+
+  /**
+   * Store a response for as long as its TTLs allow
+   * @param key the cache key
+   * @param response the response to store
+   */
+  set(key: string, response: DnsResponse): void {
+    const ttl = this.cacheTtl(response);
+    if (ttl === undefined || ttl.seconds <= 0) {
+      this.counters.uncacheable++;
+      return;
+    }
+
+    // Re-inserting moves the key to the end, so eviction removes the oldest first
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    const now = Date.now();
+    this.entries.set(key, {
+      response: structuredClone(response),
+      storedAt: now,
+      expiresAt: now + ttl.seconds * 1000,
+      negative: ttl.negative
+    });
+  }
+
+  /**
+   * Remove all entries and reset the counters
+   */
+  clear(): void {
+    this.entries.clear();
+    this.counters = { hits: 0, negativeHits: 0, misses: 0, coalesced: 0, uncacheable: 0 };
+  }
+
+  /**
+   * Get a snapshot of the cache counters
+   */
+  getStats(): DnsCacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  /**
+   * Work out how long a response may be cached
+   * @returns The TTL in seconds and whether it is a negative answer, or undefined if the response must not be cached
+   */
+  private cacheTtl(response: DnsResponse): { seconds: number; negative: boolean } | undefined {
+    // Truncated responses are incomplete
+    if (response.TC) {
+      return undefined;
+    }
+
+    const answers = response.Answer ?? [];
+    if (response.Status === DnsStatusCode.NOERROR && answers.length > 0) {
+      const seconds = Math.min(...answers.map(record => record.TTL));
+      return { seconds: Math.min(seconds, this.maxTtl), negative: false };
+    }
+
+    // Negative answers are cached for min(SOA TTL, SOA MINIMUM) (RFC 2308 section 5);
+    // without an SOA in the authority section they are not cached at all
+    if (response.Status === DnsStatusCode.NXDOMAIN || response.Status === DnsStatusCode.NOERROR) {
+      const soa = response.Authority?.find(record => record.type === DnsRecordType.SOA);
+      if (!soa) {
+        return undefined;
+      }
+      const minimum = soa.rdata?.type === 'SOA' ? soa.rdata.minimum : Number(soa.data.trim().split(/\s+/)[6]);
+      const seconds = Number.isFinite(minimum) ? Math.min(soa.TTL, minimum) : soa.TTL;
+      return { seconds: Math.min(seconds, this.maxNegativeTtl), negative: true };
+    }
+
+    // SERVFAIL, REFUSED and friends say more about the server than the name
+    return undefined;
+  }
+}
+
+/**
+ * Copy a cached response with every TTL reduced by its age
+ */
+const ageResponse = (response: DnsResponse, ageSeconds: number): DnsResponse => {
+  const aged = structuredClone(response);
+  for (const record of [...(aged.Answer ?? []), ...(aged.Authority ?? []), ...(aged.Additional ?? [])]) {
+    record.TTL = Math.max(0, record.TTL - ageSeconds);
+  }
+  return aged;
+};
+
+/**
+ * The cache used by resolvers unless they are given their own
+ */
+export const sharedDnsCache = new DnsCache();
@@ -0,0 +1,1033 @@
+/**
+ * DNS wire format (RFC 1035) encoder and decoder
+ * Used for RFC 8484 "application/dns-message" requests and responses
+ */
+
+import { DnsRecordType } from './DohResolver'
+import type { DnsQuery, DnsResponse, DnsResourceRecord, DnsEdnsInfo, EdnsOptions } from './DohResolver'
+
+// Header flag bits (second 16-bit word of the header)
+const FLAG_QR = 0x8000
+const FLAG_TC = 0x0200
+const FLAG_RD = 0x0100
+const FLAG_RA = 0x0080
+const FLAG_AD = 0x0020
+const FLAG_CD = 0x0010
+
+const CLASS_IN = 1
+const HEADER_LENGTH = 12
+const MAX_LABEL_LENGTH = 63
+const MAX_NAME_LENGTH = 255
+const POINTER_MASK = 0xc0
+
+// EDNS(0) constants (RFC 6891) and option codes
+const EDNS_DO_BIT = 0x8000
+const EDNS_OPTION_CLIENT_SUBNET = 8
+const EDNS_OPTION_PADDING = 12
+const EDNS_OPTION_EXTENDED_ERROR = 15
+const DEFAULT_UDP_PAYLOAD_SIZE = 1232
+const DEFAULT_PADDING_BLOCK_SIZE = 128
+// Root name (1) + TYPE (2) + CLASS (2) + TTL (4) + RDLENGTH (2)
+const OPT_RECORD_OVERHEAD = 11
+
+const BASE32HEX_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUV'
+
+// --- Encoding helpers ---
+
+/**
+ * Encode bytes as base64url without padding (RFC 4648 section 5), as required for the `dns` GET parameter
+ * @param bytes the bytes to encode
+ * @returns The base64url string
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Encode bytes as standard base64
+ * @param bytes the bytes to encode
+ * @returns The base64 string
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary)
+}
+
+/**
+ * Decode a standard base64 string (whitespace is ignored)
+ * @param text the base64 string to decode
+ * @returns The decoded bytes
+ */
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ''))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+/**
+ * Encode bytes as lowercase hexadecimal
+ * @param bytes the bytes to encode
+ * @returns The hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Decode a hexadecimal string (whitespace is ignored)
+ * @param text the hex string to decode
+ * @returns The decoded bytes
+ */
+export function fromHex(text: string): Uint8Array {
+  const clean = text.replace(/\s+/g, '')
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+    throw new Error(`Invalid hex string: ${text}`)
+  }
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substring(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Encode bytes as unpadded base32hex (RFC 4648 section 7), as used by NSEC3 hashed owner names
+ * @param bytes the bytes to encode
+ * @returns The base32hex string (uppercase)
+ */
+export function toBase32Hex(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32HEX_ALPHABET[(buffer >> (bits - 5)) & 0x1f]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32HEX_ALPHABET[(buffer << (5 - bits)) & 0x1f]
+  }
+  return output
+}
+
+/**
+ * Decode an unpadded base32hex string (case-insensitive)
+ * @param text the base32hex string to decode
+ * @returns The decoded bytes
+ */
+export function fromBase32Hex(text: string): Uint8Array {
+  const clean = text.toUpperCase().replace(/=+$/, '')
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of clean) {
+    const value = BASE32HEX_ALPHABET.indexOf(char)
+    if (value === -1) {
+      throw new Error(`Invalid base32hex string: ${text}`)
+    }
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Uint8Array.from(bytes)
+}
+
+/**
+ * Get the presentation mnemonic for a record type (RFC 3597 "TYPEnnn" for unknown types)
+ * @param type the numeric record type
+ * @returns The record type mnemonic (e.g. "NS")
+ */
+export function recordTypeName(type: number): string {
+  return DnsRecordType[type] ?? `TYPE${type}`
+}
+
+/**
+ * Parse a record type mnemonic or number (e.g. "NS", "TYPE65", "2")
+ * @param text the record type to parse
+ * @returns The numeric record type
+ */
+export function parseRecordType(text: string | number): number {
+  if (typeof text === 'number') return text
+  const upper = text.toUpperCase()
+  const known = DnsRecordType[upper as keyof typeof DnsRecordType]
+  if (known !== undefined) return known
+  const generic = upper.match(/^(?:TYPE)?(\d+)$/)
+  if (generic) return parseInt(generic[1], 10)
+  throw new Error(`Unknown DNS record type: ${text}`)
+}
+
+/**
+ * Normalize a domain name to its absolute, lowercase form with a trailing dot
+ * @param name the domain name
+ * @returns The normalized name (e.g. "example.com.")
+ */
+export function normalizeName(name: string): string {
+  const lower = name.toLowerCase()
+  if (lower === '' || lower === '.') return '.'
+  return lower.endsWith('.') ? lower : `${lower}.`
+}
+
+/**
+ * Split a domain name into its labels, ignoring the root label
+ * @param name the domain name
+ * @returns The list of labels (e.g. ["www", "example", "com"])
+ */
+export function nameToLabels(name: string): string[] {
+  const trimmed = name.endsWith('.') ? name.slice(0, -1) : name
+  if (trimmed === '') return []
+  return trimmed.split('.')
+}
+
+/**
+ * Format a Unix timestamp as the YYYYMMDDHHmmSS form used by RRSIG records (RFC 4034 section 3.2)
+ */
+const formatSignatureTime = (seconds: number): string => {
+  return new Date(seconds * 1000).toISOString().replace(/[-:T]/g, '').substring(0, 14)
+}
+
+/**
+ * Parse an RRSIG timestamp, accepting both YYYYMMDDHHmmSS and plain Unix seconds
+ */
+const parseSignatureTime = (text: string): number => {
+  if (/^\d{14}$/.test(text)) {
+    const iso = `${text.substring(0, 4)}-${text.substring(4, 6)}-${text.substring(6, 8)}T${text.substring(8, 10)}:${text.substring(10, 12)}:${text.substring(12, 14)}Z`
+    return Math.floor(Date.parse(iso) / 1000)
+  }
+  return parseInt(text, 10)
+}
+
+/**
+ * Split a presentation-format RDATA string into tokens, honouring double quotes and backslash escapes
+ * @param text the presentation-format RDATA
+ * @returns The unquoted, unescaped tokens
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  let current = ''
+  let inQuotes = false
+  let hasToken = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '\\' && i + 1 < text.length) {
+      const decimal = text.substring(i + 1, i + 4)
+      if (/^\d{3}$/.test(decimal)) {
+        current += String.fromCharCode(parseInt(decimal, 10))
+        i += 3
+      } else {
+        current += text[++i]
+      }
+      hasToken = true
+    } else if (char === '"') {
+      inQuotes = !inQuotes
+      hasToken = true
+    } else if (!inQuotes && /\s/.test(char)) {
+      if (hasToken) tokens.push(current)
+      current = ''
+      hasToken = false
+    } else {
+      current += char
+      hasToken = true
+    }
+  }
+  if (hasToken) tokens.push(current)
+  return tokens
+}
+
+/**
+ * Quote a character-string for presentation, escaping quotes, backslashes and non-printable bytes
+ */
+const quoteCharacterString = (bytes: Uint8Array): string => {
+  let text = ''
+  bytes.forEach(byte => {
+    if (byte === 0x22 || byte === 0x5c) {
+      text += `\\${String.fromCharCode(byte)}`
+    } else if (byte < 0x20 || byte > 0x7e) {
+      text += `\\${byte.toString().padStart(3, '0')}`
+    } else {
+      text += String.fromCharCode(byte)
+    }
+  })
+  return `"${text}"`
+}
+
+/**
+ * Serialize a list of record types into the NSEC/NSEC3 type bitmap format (RFC 4034 section 4.1.2)
+ */
+const encodeTypeBitmap = (types: number[]): number[] => {
+  const windows = new Map<number, number[]>()
+  types.forEach(type => {
+    const window = type >> 8
+    const bitmap = windows.get(window) ?? []
+    const offset = (type & 0xff) >> 3
+    while (bitmap.length <= offset) bitmap.push(0)
+    bitmap[offset] |= 0x80 >> (type & 0x07)
+    windows.set(window, bitmap)
+  })
+
+  const bytes: number[] = []
+  Array.from(windows.keys()).sort((a, b) => a - b).forEach(window => {
+    const bitmap = windows.get(window)!
+    bytes.push(window, bitmap.length, ...bitmap)
+  })
+  return bytes
+}
+
+/**
+ * Parse an NSEC/NSEC3 type bitmap into a list of record types
+ */
+const decodeTypeBitmap = (bytes: Uint8Array): number[] => {
+  const types: number[] = []
+  let offset = 0
+  while (offset + 2 <= bytes.length) {
+    const window = bytes[offset]
+    const length = bytes[offset + 1]
+    offset += 2
+    for (let i = 0; i < length && offset + i < bytes.length; i++) {
+      for (let bit = 0; bit < 8; bit++) {
+        if (bytes[offset + i] & (0x80 >> bit)) {
+          types.push(window * 256 + i * 8 + bit)
+        }
+      }
+    }
+    offset += length
+  }
+  return types
+}
+
+/**
+ * Convert an IPv6 address to its 16-byte form, expanding "::"
+ */
+const parseIpv6 = (text: string): number[] => {
+  const [head, tail] = text.includes('::') ? text.split('::') : [text, undefined]
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+
+  // An embedded IPv4 suffix (e.g. ::ffff:1.2.3.4) counts as two groups
+  const expandIpv4 = (groups: string[]) => groups.flatMap(group => {
+    if (!group.includes('.')) return [group]
+    const octets = group.split('.').map(octet => parseInt(octet, 10))
+    return [((octets[0] << 8) | octets[1]).toString(16), ((octets[2] << 8) | octets[3]).toString(16)]
+  })
+  const headValues = expandIpv4(headGroups)
+  const tailValues = expandIpv4(tailGroups)
+  const missing = 8 - headValues.length - tailValues.length
+  if (missing < 0 || (tail === undefined && missing !== 0)) {
+    throw new Error(`Invalid IPv6 address: ${text}`)
+  }
+
+  const groups = [...headValues, ...new Array(missing).fill('0'), ...tailValues]
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+/**
+ * Format 16 bytes as a compressed IPv6 address (RFC 5952)
+ */
+const formatIpv6 = (bytes: Uint8Array): string => {
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1])
+  }
+
+  // Find the longest run of zero groups (length >= 2) to replace with "::"
+  let bestStart = -1
+  let bestLength = 0
+  for (let i = 0; i < groups.length;) {
+    if (groups[i] !== 0) { i++; continue }
+    let j = i
+    while (j < groups.length && groups[j] === 0) j++
+    if (j - i > bestLength && j - i >= 2) {
+      bestStart = i
+      bestLength = j - i
+    }
+    i = j
+  }
+
+  const hex = groups.map(group => group.toString(16))
+  if (bestStart === -1) return hex.join(':')
+  const head = hex.slice(0, bestStart).join(':')
+  const tail = hex.slice(bestStart + bestLength).join(':')
+  return `${head}::${tail}`
+}
+
+// --- Writer ---
+
+/**
+ * Growable byte buffer with DNS name compression support
+ */
+class DnsWriter {
+  private bytes: number[] = []
+  private compression = new Map<string, number>()
+
+  /**
+   * @param allowCompression whether names may be compressed at all (disabled for canonical forms)
+   */
+  constructor(private allowCompression = true) {}
+
+  get length(): number {
+    return this.bytes.length
+  }
+
+  writeUint8(value: number) {
+    this.bytes.push(value & 0xff)
+  }
+
+  writeUint16(value: number) {
+    this.bytes.push((value >> 8) & 0xff, value & 0xff)
+  }
+
+  writeUint32(value: number) {
+    this.bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff)
+  }
+
+  writeBytes(bytes: ArrayLike<number>) {
+    for (let i = 0; i < bytes.length; i++) {
+      this.bytes.push(bytes[i] & 0xff)
+    }
+  }
+
+  setUint16(offset: number, value: number) {
+    this.bytes[offset] = (value >> 8) & 0xff
+    this.bytes[offset + 1] = value & 0xff
+  }
+
+  /**
+   * Write a domain name, reusing previously written suffixes via compression pointers when allowed
+   */
+  writeName(name: string, compress = true) {
+    const labels = nameToLabels(name)
+    const encodedLength = labels.reduce((total, label) => total + label.length + 1, 1)
+    if (encodedLength > MAX_NAME_LENGTH) {
+      throw new Error(`Domain name too long: ${name}`)
+    }
+
+    for (let i = 0; i < labels.length; i++) {
+      const suffix = labels.slice(i).join('.').toLowerCase()
+      const pointer = this.compression.get(suffix)
+      if (compress && this.allowCompression && pointer !== undefined) {
+        this.writeUint16(0xc000 | pointer)
+        return
+      }
+      // Pointers can only address the first 16 KiB of the message
+      if (this.bytes.length < 0x3fff) {
+        this.compression.set(suffix, this.bytes.length)
+      }
+
+      const label = new TextEncoder().encode(labels[i])
+      if (label.length === 0 || label.length > MAX_LABEL_LENGTH) {
+        throw new Error(`Invalid label "${labels[i]}" in domain name: ${name}`)
+      }
+      this.writeUint8(label.length)
+      this.writeBytes(label)
+    }
+    this.writeUint8(0)
+  }
+
+  writeCharacterString(text: string) {
+    const bytes = Uint8Array.from(text, char => char.charCodeAt(0) & 0xff)
+    if (bytes.length > 255) {
+      throw new Error('Character string longer than 255 bytes')
+    }
+    this.writeUint8(bytes.length)
+    this.writeBytes(bytes)
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+/**
+ * Encode presentation-format RDATA into the writer
+ * Names inside RDATA are only compressed for the RFC 1035 types, as required by RFC 3597 section 4
+ */
+const writeRdata = (writer: DnsWriter, type: number, data: string) => {
+  // RFC 3597 generic encoding works for every type
+  const generic = data.trim().match(/^\\#\s+\d+\s*(.*)$/)
+  if (generic) {
+    writer.writeBytes(fromHex(generic[1]))
+    return
+  }
+
+  const tokens = tokenize(data)
+
+  switch (type) {
+    case DnsRecordType.A:
+      writer.writeBytes(tokens[0].split('.').map(octet => parseInt(octet, 10)))
+      return
+    case DnsRecordType.AAAA:
+      writer.writeBytes(parseIpv6(tokens[0]))
+      return
+    case DnsRecordType.NS:
+    case DnsRecordType.CNAME:
+    case DnsRecordType.PTR:
+      writer.writeName(tokens[0])
+      return
+    case DnsRecordType.DNAME:
+      writer.writeName(tokens[0], false)
+      return
+    case DnsRecordType.SOA:
+      writer.writeName(tokens[0])
+      writer.writeName(tokens[1])
+      tokens.slice(2, 7).forEach(value => writer.writeUint32(parseInt(value, 10)))
+      return
+    case DnsRecordType.MX:
+      writer.writeUint16(parseInt(tokens[0], 10))
+      writer.writeName(tokens[1])
+      return
+    case DnsRecordType.TXT:
+      tokens.forEach(token => writer.writeCharacterString(token))
+      return
+    case DnsRecordType.SRV:
+      tokens.slice(0, 3).forEach(value => writer.writeUint16(parseInt(value, 10)))
+      writer.writeName(tokens[3], false)
+      return
+    case DnsRecordType.CAA:
+      writer.writeUint8(parseInt(tokens[0], 10))
+      writer.writeCharacterString(tokens[1])
+      writer.writeBytes(Uint8Array.from(tokens.slice(2).join(' '), char => char.charCodeAt(0) & 0xff))
+      return
+    case DnsRecordType.DS:
+      writer.writeUint16(parseInt(tokens[0], 10))
+      writer.writeUint8(parseInt(tokens[1], 10))
+      writer.writeUint8(parseInt(tokens[2], 10))
+      writer.writeBytes(fromHex(tokens.slice(3).join('')))
+      return
+    case DnsRecordType.DNSKEY:
+      writer.writeUint16(parseInt(tokens[0], 10))
+      writer.writeUint8(parseInt(tokens[1], 10))
+      writer.writeUint8(parseInt(tokens[2], 10))
+      writer.writeBytes(fromBase64(tokens.slice(3).join('')))
+      return
+    case DnsRecordType.RRSIG:
+      writer.writeUint16(parseRecordType(tokens[0]))
+      writer.writeUint8(parseInt(tokens[1], 10))
+      writer.writeUint8(parseInt(tokens[2], 10))
+      writer.writeUint32(parseInt(tokens[3], 10))
+      writer.writeUint32(parseSignatureTime(tokens[4]))
+      writer.writeUint32(parseSignatureTime(tokens[5]))
+      writer.writeUint16(parseInt(tokens[6], 10))
+      writer.writeName(tokens[7], false)
+      writer.writeBytes(fromBase64(tokens.slice(8).join('')))
+      return
+    case DnsRecordType.NSEC:
+      writer.writeName(tokens[0], false)
+      writer.writeBytes(encodeTypeBitmap(tokens.slice(1).map(parseRecordType)))
+      return
+    case DnsRecordType.NSEC3: {
+      const salt = tokens[3] === '-' ? new Uint8Array(0) : fromHex(tokens[3])
+      const nextHashed = fromBase32Hex(tokens[4])
+      writer.writeUint8(parseInt(tokens[0], 10))
+      writer.writeUint8(parseInt(tokens[1], 10))
+      writer.writeUint16(parseInt(tokens[2], 10))
+      writer.writeUint8(salt.length)
+      writer.writeBytes(salt)
+      writer.writeUint8(nextHashed.length)
+      writer.writeBytes(nextHashed)
+      writer.writeBytes(encodeTypeBitmap(tokens.slice(5).map(parseRecordType)))
+      return
+    }
+    case DnsRecordType.NSEC3PARAM: {
+      const salt = tokens[3] === '-' ? new Uint8Array(0) : fromHex(tokens[3])
+      writer.writeUint8(parseInt(tokens[0], 10))
+      writer.writeUint8(parseInt(tokens[1], 10))
+      writer.writeUint16(parseInt(tokens[2], 10))
+      writer.writeUint8(salt.length)
+      writer.writeBytes(salt)
+      return
+    }
+    default:
+      throw new Error(`Cannot encode RDATA for record type ${recordTypeName(type)} without RFC 3597 (\\#) syntax`)
+  }
+}
+
+/**
+ * Encode a domain name to its uncompressed wire form
+ * @param name the domain name (e.g. "example.com.")
+ * @returns The name bytes, ending with the root label
+ */
+export function encodeName(name: string): Uint8Array {
+  const writer = new DnsWriter(false)
+  writer.writeName(name)
+  return writer.toUint8Array()
+}
+
+/**
+ * Encode presentation-format RDATA (as found in `DnsResponse` records) to its uncompressed wire form
+ * @param type the numeric record type
+ * @param data the presentation-format RDATA (e.g. "10 mail.example.com.")
+ * @returns The RDATA bytes
+ */
+export function encodeRdata(type: number, data: string): Uint8Array {
+  const writer = new DnsWriter(false)
+  writeRdata(writer, type, data)
+  return writer.toUint8Array()
+}
+
+const writeRecord = (writer: DnsWriter, record: DnsResourceRecord) => {
+  writer.writeName(record.name)
+  writer.writeUint16(record.type)
+  writer.writeUint16(CLASS_IN)
+  writer.writeUint32(record.TTL)
+
+  // Reserve RDLENGTH and patch it once the RDATA size is known
+  const lengthOffset = writer.length
+  writer.writeUint16(0)
+  writeRdata(writer, record.type, record.data)
+  writer.setUint16(lengthOffset, writer.length - lengthOffset - 2)
+}
+
+interface EdnsOption {
+  code: number
+  data: Uint8Array
+}
+
+/**
+ * Write an OPT pseudo-record; the extended RCODE, version and DO bit live in the TTL field
+ */
+const writeOpt = (writer: DnsWriter, udpPayloadSize: number, extendedRcode: number, dnssecOk: boolean, options: EdnsOption[]) => {
+  writer.writeUint8(0) // Root name
+  writer.writeUint16(DnsRecordType.OPT)
+  writer.writeUint16(udpPayloadSize)
+  writer.writeUint8(extendedRcode)
+  writer.writeUint8(0) // EDNS version 0
+  writer.writeUint16(dnssecOk ? EDNS_DO_BIT : 0)
+  writer.writeUint16(options.reduce((total, option) => total + 4 + option.data.length, 0))
+  options.forEach(option => {
+    writer.writeUint16(option.code)
+    writer.writeUint16(option.data.length)
+    writer.writeBytes(option.data)
+  })
+}
+
+/**
+ * Build the EDNS options for a query, adding padding last so the whole message reaches a block boundary
+ */
+const buildQueryOptions = (edns: EdnsOptions, messageLength: number): EdnsOption[] => {
+  const options: EdnsOption[] = []
+
+  if (edns.suppressClientSubnet) {
+    // FAMILY 1 (IPv4), SOURCE PREFIX-LENGTH 0, SCOPE PREFIX-LENGTH 0, no address bytes
+    options.push({ code: EDNS_OPTION_CLIENT_SUBNET, data: Uint8Array.from([0, 1, 0, 0]) })
+  }
+
+  const blockSize = edns.paddingBlockSize ?? DEFAULT_PADDING_BLOCK_SIZE
+  if (blockSize > 0) {
+    const unpaddedLength = messageLength + OPT_RECORD_OVERHEAD +
+      options.reduce((total, option) => total + 4 + option.data.length, 0) + 4
+    const paddingLength = (blockSize - (unpaddedLength % blockSize)) % blockSize
+    options.push({ code: EDNS_OPTION_PADDING, data: new Uint8Array(paddingLength) })
+  }
+
+  return options
+}
+
+/**
+ * Encode a DNS query message to wire format
+ * @param packet the DNS query message (e.g. from `makeQuery`)
+ * @returns The encoded message bytes
+ */
+export function encodeQuery(packet: DnsQuery): Uint8Array {
+  const writer = new DnsWriter()
+  writer.writeUint16(packet.id)
+  writer.writeUint16(packet.flags)
+  writer.writeUint16(packet.questions.length)
+  writer.writeUint16(0) // ANCOUNT
+  writer.writeUint16(0) // NSCOUNT
+  writer.writeUint16(packet.edns ? 1 : 0) // ARCOUNT
+
+  packet.questions.forEach(question => {
+    writer.writeName(question.name)
+    writer.writeUint16(parseRecordType(question.type))
+    writer.writeUint16(CLASS_IN)
+  })
+
+  if (packet.edns) {
+    const options = buildQueryOptions(packet.edns, writer.length)
+    writeOpt(writer, packet.edns.udpPayloadSize ?? DEFAULT_UDP_PAYLOAD_SIZE, 0, packet.edns.dnssecOk ?? false, options)
+  }
+
+  return writer.toUint8Array()
+}
+
+/**
+ * Encode a DNS response to wire format
+ * @param response the response in the `DnsResponse` shape
+ * @param id the message ID to use (0 for DoH)
+ * @returns The encoded message bytes
+ */
+export function encodeResponse(response: DnsResponse, id: number = 0): Uint8Array {
+  const answer = response.Answer ?? []
+  const authority = response.Authority ?? []
+  const additional = response.Additional ?? []
+
+  // Only the low 4 bits of the RCODE fit in the header, the rest travels in the OPT record
+  let flags = FLAG_QR | (response.Status & 0x0f)
+  if (response.TC) flags |= FLAG_TC
+  if (response.RD) flags |= FLAG_RD
+  if (response.RA) flags |= FLAG_RA
+  if (response.AD) flags |= FLAG_AD
+  if (response.CD) flags |= FLAG_CD
+
+  const writer = new DnsWriter()
+  writer.writeUint16(id)
+  writer.writeUint16(flags)
+  writer.writeUint16(response.Question.length)
+  writer.writeUint16(answer.length)
+  writer.writeUint16(authority.length)
+  writer.writeUint16(additional.length + (response.EDNS ? 1 : 0))
+
+  response.Question.forEach(question => {
+    writer.writeName(question.name)
+    writer.writeUint16(question.type)
+    writer.writeUint16(CLASS_IN)
+  })
+  answer.forEach(record => writeRecord(writer, record))
+  authority.forEach(record => writeRecord(writer, record))
+  additional.forEach(record => writeRecord(writer, record))
+
+  if (response.EDNS) {
+    const options = response.EDNS.options.map(option => ({ code: option.code, data: fromHex(option.data) }))
+    writeOpt(writer, response.EDNS.udpPayloadSize, response.Status >> 4, response.EDNS.dnssecOk, options)
+  }
+
+  return writer.toUint8Array()
+}
+
+// --- Reader ---
+
+/**
+ * Cursor over a wire-format DNS message that resolves compression pointers against the whole message
+ */
+class DnsReader {
+  private view: DataView
+  offset = 0
+
+  constructor(private message: Uint8Array) {
+    this.view = new DataView(message.buffer, message.byteOffset, message.byteLength)
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.message.length) {
+      throw new Error(`Truncated DNS message: needed ${length} bytes at offset ${this.offset}`)
+    }
+  }
+
+  readUint8(): number {
+    this.ensure(1)
+    return this.view.getUint8(this.offset++)
+  }
+
+  readUint16(): number {
+    this.ensure(2)
+    const value = this.view.getUint16(this.offset)
+    this.offset += 2
+    return value
+  }
+
+  readUint32(): number {
+    this.ensure(4)
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.ensure(length)
+    const bytes = this.message.slice(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+
+  /**
+   * Read a (possibly compressed) domain name and return it in absolute form with a trailing dot
+   */
+  readName(): string {
+    const labels: string[] = []
+    let position = this.offset
+    let jumped = false
+    let jumps = 0
+    let totalLength = 1
+
+    while (true) {
+      if (position >= this.message.length) {
+        throw new Error('Truncated DNS message while reading a domain name')
+      }
+      const length = this.message[position]
+
+      if ((length & POINTER_MASK) === POINTER_MASK) {
+        if (position + 1 >= this.message.length) {
+          throw new Error('Truncated compression pointer in DNS message')
+        }
+        // Guard against pointer loops in malformed messages
+        if (++jumps > 64) {
+          throw new Error('Too many compression pointers in DNS message')
+        }
+        const pointer = ((length & 0x3f) << 8) | this.message[position + 1]
+        if (!jumped) this.offset = position + 2
+        jumped = true
+        position = pointer
+        continue
+      }
+      if ((length & POINTER_MASK) !== 0) {
+        throw new Error(`Unsupported label type 0x${length.toString(16)} in DNS message`)
+      }
+
+      position++
+      if (length === 0) break
+
+      totalLength += length + 1
+      if (totalLength > MAX_NAME_LENGTH || position + length > this.message.length) {
+        throw new Error('Invalid domain name in DNS message')
+      }
+      labels.push(formatLabel(this.message.subarray(position, position + length)))
+      position += length
+    }
+
+    if (!jumped) this.offset = position
+    return labels.length === 0 ? '.' : `${labels.join('.')}.`
+  }
+}
+
+/**
+ * Format a single label for presentation, escaping dots and non-printable bytes
+ */
+const formatLabel = (bytes: Uint8Array): string => {
+  let text = ''
+  bytes.forEach(byte => {
+    if (byte === 0x2e || byte === 0x5c) {
+      text += `\\${String.fromCharCode(byte)}`
+    } else if (byte <= 0x20 || byte > 0x7e) {
+      text += `\\${byte.toString().padStart(3, '0')}`
+    } else {
+      text += String.fromCharCode(byte)
+    }
+  })
+  return text
+}
+
+/**
+ * Decode RDATA into its presentation format
+ * The reader must be positioned at the start of the RDATA; names may point anywhere in the message.
+ */
+const readRdata = (reader: DnsReader, type: number, length: number): string => {
+  const end = reader.offset + length
+  const remaining = () => end - reader.offset
+
+  switch (type) {
+    case DnsRecordType.A:
+      return Array.from(reader.readBytes(4)).join('.')
+    case DnsRecordType.AAAA:
+      return formatIpv6(reader.readBytes(16))
+    case DnsRecordType.NS:
+    case DnsRecordType.CNAME:
+    case DnsRecordType.PTR:
+    case DnsRecordType.DNAME:
+      return reader.readName()
+    case DnsRecordType.SOA: {
+      const mname = reader.readName()
+      const rname = reader.readName()
+      const values = [reader.readUint32(), reader.readUint32(), reader.readUint32(), reader.readUint32(), reader.readUint32()]
+      return `${mname} ${rname} ${values.join(' ')}`
+    }
+    case DnsRecordType.MX: {
+      const preference = reader.readUint16()
+      return `${preference} ${reader.readName()}`
+    }
+    case DnsRecordType.TXT: {
+      const strings: string[] = []
+      while (remaining() > 0) {
+        strings.push(quoteCharacterString(reader.readBytes(reader.readUint8())))
+      }
+      return strings.join(' ')
+    }
+    case DnsRecordType.SRV: {
+      const priority = reader.readUint16()
+      const weight = reader.readUint16()
+      const port = reader.readUint16()
+      return `${priority} ${weight} ${port} ${reader.readName()}`
+    }
+    case DnsRecordType.CAA: {
+      const flags = reader.readUint8()
+      const tag = new TextDecoder().decode(reader.readBytes(reader.readUint8()))
+      const value = reader.readBytes(remaining())
+      return `${flags} ${tag} ${quoteCharacterString(value)}`
+    }
+    case DnsRecordType.DS: {
+      const keyTag = reader.readUint16()
+      const algorithm = reader.readUint8()
+      const digestType = reader.readUint8()
+      return `${keyTag} ${algorithm} ${digestType} ${toHex(reader.readBytes(remaining())).toUpperCase()}`
+    }
+    case DnsRecordType.DNSKEY: {
+      const flags = reader.readUint16()
+      const protocol = reader.readUint8()
+      const algorithm = reader.readUint8()
+      return `${flags} ${protocol} ${algorithm} ${toBase64(reader.readBytes(remaining()))}`
+    }
+    case DnsRecordType.RRSIG: {
+      const typeCovered = recordTypeName(reader.readUint16())
+      const algorithm = reader.readUint8()
+      const labels = reader.readUint8()
+      const originalTtl = reader.readUint32()
+      const expiration = formatSignatureTime(reader.readUint32())
+      const inception = formatSignatureTime(reader.readUint32())
+      const keyTag = reader.readUint16()
+      const signer = reader.readName()
+      const signature = toBase64(reader.readBytes(remaining()))
+      return `${typeCovered} ${algorithm} ${labels} ${originalTtl} ${expiration} ${inception} ${keyTag} ${signer} ${signature}`
+    }
+    case DnsRecordType.NSEC: {
+      const nextName = reader.readName()
+      const types = decodeTypeBitmap(reader.readBytes(remaining())).map(recordTypeName)
+      return [nextName, ...types].join(' ')
+    }
+    case DnsRecordType.NSEC3: {
+      const algorithm = reader.readUint8()
+      const flags = reader.readUint8()
+      const iterations = reader.readUint16()
+      const salt = reader.readBytes(reader.readUint8())
+      const nextHashed = toBase32Hex(reader.readBytes(reader.readUint8()))
+      const types = decodeTypeBitmap(reader.readBytes(remaining())).map(recordTypeName)
+      return [algorithm, flags, iterations, salt.length ? toHex(salt).toUpperCase() : '-', nextHashed, ...types].join(' ')
+    }
+    case DnsRecordType.NSEC3PARAM: {
+      const algorithm = reader.readUint8()
+      const flags = reader.readUint8()
+      const iterations = reader.readUint16()
+      const salt = reader.readBytes(reader.readUint8())
+      return `${algorithm} ${flags} ${iterations} ${salt.length ? toHex(salt).toUpperCase() : '-'}`
+    }
+    default:
+      return `\\# ${length}${length > 0 ? ` ${toHex(reader.readBytes(length)).toUpperCase()}` : ''}`
+  }
+}
+
+/**
+ * Parse the OPT pseudo-record fields and the options we understand
+ */
+const parseOpt = (udpPayloadSize: number, ttl: number, rdata: Uint8Array): { edns: DnsEdnsInfo, extendedRcode: number } => {
+  const edns: DnsEdnsInfo = {
+    udpPayloadSize,
+    version: (ttl >>> 16) & 0xff,
+    dnssecOk: (ttl & EDNS_DO_BIT) !== 0,
+    options: []
+  }
+
+  const reader = new DnsReader(rdata)
+  while (reader.offset + 4 <= rdata.length) {
+    const code = reader.readUint16()
+    const data = reader.readBytes(reader.readUint16())
+    edns.options.push({ code, data: toHex(data) })
+
+    if (code === EDNS_OPTION_CLIENT_SUBNET && data.length >= 4) {
+      const family = (data[0] << 8) | data[1]
+      const addressBytes = new Uint8Array(family === 2 ? 16 : 4)
+      addressBytes.set(data.subarray(4, 4 + addressBytes.length))
+      edns.clientSubnet = {
+        family,
+        sourcePrefix: data[2],
+        scopePrefix: data[3],
+        address: family === 2 ? formatIpv6(addressBytes) : Array.from(addressBytes).join('.')
+      }
+    } else if (code === EDNS_OPTION_PADDING) {
+      edns.paddingLength = data.length
+    } else if (code === EDNS_OPTION_EXTENDED_ERROR && data.length >= 2) {
+      edns.extendedErrors = [
+        ...(edns.extendedErrors ?? []),
+        { infoCode: (data[0] << 8) | data[1], extraText: new TextDecoder().decode(data.subarray(2)) }
+      ]
+    }
+  }
+
+  return { edns, extendedRcode: (ttl >>> 24) & 0xff }
+}
+
+/**
+ * Read a resource record; OPT pseudo-records are handed to `onOpt` instead of being returned
+ */
+const readRecord = (reader: DnsReader, onOpt: (rrClass: number, ttl: number, rdata: Uint8Array) => void): DnsResourceRecord | null => {
+  const name = reader.readName()
+  const type = reader.readUint16()
+  const rrClass = reader.readUint16()
+  const ttl = reader.readUint32()
+  const length = reader.readUint16()
+  const end = reader.offset + length
+
+  if (type === DnsRecordType.OPT) {
+    onOpt(rrClass, ttl, reader.readBytes(length))
+    return null
+  }
+
+  const data = readRdata(reader, type, length)
+  if (reader.offset !== end) {
+    throw new Error(`RDATA length mismatch for ${recordTypeName(type)} record of ${name}`)
+  }
+
+  return { name, type, TTL: ttl, data }
+}
+
+/**
+ * Decode a wire-format DNS message into the `DnsResponse` shape used by the JSON API
+ * @param message the raw DNS message bytes
+ * @returns The decoded response
+ * @throws {Error} If the message is truncated or malformed
+ */
+export function decodeMessage(message: Uint8Array): DnsResponse {
+  if (message.length < HEADER_LENGTH) {
+    throw new Error(`DNS message too short (${message.length} bytes)`)
+  }
+
+  const reader = new DnsReader(message)
+  reader.readUint16() // ID
+  const flags = reader.readUint16()
+  const questionCount = reader.readUint16()
+  const answerCount = reader.readUint16()
+  const authorityCount = reader.readUint16()
+  const additionalCount = reader.readUint16()
+
+  const question: DnsResponse['Question'] = []
+  for (let i = 0; i < questionCount; i++) {
+    const name = reader.readName()
+    const type = reader.readUint16()
+    reader.readUint16() // QCLASS
+    question.push({ name, type })
+  }
+
+  let opt: ReturnType<typeof parseOpt> | undefined
+  const handleOpt = (rrClass: number, ttl: number, rdata: Uint8Array) => {
+    opt = parseOpt(rrClass, ttl, rdata)
+  }
+  const readSection = (count: number) => Array.from({ length: count }, () => readRecord(reader, handleOpt))
+    .filter((record): record is DnsResourceRecord => record !== null)
+  const answer = readSection(answerCount)
+  const authority = readSection(authorityCount)
+  const additional = readSection(additionalCount)
+
+  const response: DnsResponse = {
+    // The OPT record carries the upper 8 bits of a 12-bit extended RCODE
+    Status: ((opt?.extendedRcode ?? 0) << 4) | (flags & 0x0f),
+    TC: (flags & FLAG_TC) !== 0,
+    RD: (flags & FLAG_RD) !== 0,
+    RA: (flags & FLAG_RA) !== 0,
+    AD: (flags & FLAG_AD) !== 0,
+    CD: (flags & FLAG_CD) !== 0,
+    Question: question
+  }
+  // Mirror the JSON API, which omits empty sections
+  if (answer.length > 0) response.Answer = answer
+  if (authority.length > 0) response.Authority = authority
+  if (additional.length > 0) response.Additional = additional
+  if (opt) response.EDNS = opt.edns
+
+  return response
+}
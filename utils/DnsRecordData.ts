@@ -0,0 +1,192 @@
+/**
+ * Typed RDATA parsing
+ * Turns the presentation-format `data` strings of DoH answers (JSON API or decoded wire format)
+ * into structured records, so analyzers don't have to scrape strings.
+ */
+
+import { DnsRecordType } from './DohResolver';
+import type { DnsResourceRecord, DnsResponse } from './DohResolver';
+import { tokenize } from './DnsMessage';
+
+export interface ARecordData {
+  type: 'A';
+  address: string;
+}
+
+export interface AaaaRecordData {
+  type: 'AAAA';
+  address: string;
+}
+
+export interface NsRecordData {
+  type: 'NS';
+  /** Lowercase host name without the trailing dot */
+  nameserver: string;
+}
+
+export interface CnameRecordData {
+  type: 'CNAME';
+  target: string;
+}
+
+export interface SoaRecordData {
+  type: 'SOA';
+  mname: string;
+  rname: string;
+  serial: number;
+  refresh: number;
+  retry: number;
+  expire: number;
+  /** Negative caching TTL (RFC 2308) */
+  minimum: number;
+}
+
+export interface MxRecordData {
+  type: 'MX';
+  preference: number;
+  exchange: string;
+}
+
+export interface TxtRecordData {
+  type: 'TXT';
+  /** The individual character-strings of the record */
+  strings: string[];
+  /** The character-strings concatenated, as SPF/DKIM/DMARC consumers read them (RFC 7208 section 3.3) */
+  text: string;
+}
+
+export interface SrvRecordData {
+  type: 'SRV';
+  priority: number;
+  weight: number;
+  port: number;
+  target: string;
+}
+
+export interface CaaRecordData {
+  type: 'CAA';
+  flags: number;
+  /** Issuer critical flag (RFC 8659 section 4.1) */
+  critical: boolean;
+  tag: string;
+  value: string;
+}
+
+export interface UnknownRecordData {
+  type: 'UNKNOWN';
+  rrtype: number;
+  data: string;
+}
+
+/**
+ * Structured RDATA, discriminated on `type`
+ */
+export type DnsRecordData =
+  | ARecordData
+  | AaaaRecordData
+  | NsRecordData
+  | CnameRecordData
+  | SoaRecordData
+  | MxRecordData
+  | TxtRecordData
+  | SrvRecordData
+  | CaaRecordData
+  | UnknownRecordData;
+
+/**
+ * Normalize a host name from RDATA: lowercase, without the trailing dot
+ */
+const toHostName = (name: string): string => name.toLowerCase().replace(/\.$/, '');
+
+const toNumber = (value: string | undefined): number => {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed)) {
+    throw new Error(`Expected a number in RDATA but found "${value}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Some JSON API providers return TXT data unquoted, others quote each character-string
+ */
+const parseTxtStrings = (data: string): string[] => {
+  const trimmed = data.trim();
+  return trimmed.startsWith('"') ? tokenize(trimmed) : [trimmed];
+};
+
+/**
+ * Parse presentation-format RDATA into a structured record
+ * @param type the numeric record type
+ * @param data the presentation-format RDATA (the `data` field of an answer)
+ * @returns The structured record; unsupported or malformed data is returned as `UNKNOWN`
+ */
+export function parseRecordData(type: number, data: string): DnsRecordData {
+  try {
+    const fields = tokenize(data);
+
+    switch (type) {
+      case DnsRecordType.A:
+        return { type: 'A', address: fields[0] };
+      case DnsRecordType.AAAA:
+        return { type: 'AAAA', address: fields[0].toLowerCase() };
+      case DnsRecordType.NS:
+        return { type: 'NS', nameserver: toHostName(fields[0]) };
+      case DnsRecordType.CNAME:
+        return { type: 'CNAME', target: toHostName(fields[0]) };
+      case DnsRecordType.SOA:
+        return {
+          type: 'SOA',
+          mname: toHostName(fields[0]),
+          rname: toHostName(fields[1]),
+          serial: toNumber(fields[2]),
+          refresh: toNumber(fields[3]),
+          retry: toNumber(fields[4]),
+          expire: toNumber(fields[5]),
+          minimum: toNumber(fields[6])
+        };
+      case DnsRecordType.MX:
+        return { type: 'MX', preference: toNumber(fields[0]), exchange: toHostName(fields[1]) };
+      case DnsRecordType.TXT: {
+        const strings = parseTxtStrings(data);
+        return { type: 'TXT', strings, text: strings.join('') };
+      }
+      case DnsRecordType.SRV:
+        return {
+          type: 'SRV',
+          priority: toNumber(fields[0]),
+          weight: toNumber(fields[1]),
+          port: toNumber(fields[2]),
+          target: toHostName(fields[3])
+        };
+      case DnsRecordType.CAA: {
+        const flags = toNumber(fields[0]);
+        return { type: 'CAA', flags, critical: (flags & 0x80) !== 0, tag: fields[1].toLowerCase(), value: fields.slice(2).join(' ') };
+      }
+      default:
+        return { type: 'UNKNOWN', rrtype: type, data };
+    }
+  } catch {
+    return { type: 'UNKNOWN', rrtype: type, data };
+  }
+}
+
+/**
+ * Get the structured RDATA of a record, parsing it if the resolver did not already do so
+ * @param record the resource record
+ * @returns The structured record
+ */
+export function getRecordData(record: DnsResourceRecord): DnsRecordData {
+  return record.rdata ?? parseRecordData(record.type, record.data);
+}
+
+/**
+ * Attach structured RDATA to every record of a response, so callers don't have to parse presentation strings
+ * @param response the response to annotate in place
+ * @returns The same response
+ */
+export function attachRecordData(response: DnsResponse): DnsResponse {
+  for (const record of [...(response.Answer ?? []), ...(response.Authority ?? []), ...(response.Additional ?? [])]) {
+    record.rdata = parseRecordData(record.type, record.data);
+  }
+  return response;
+}
@@ -0,0 +1,260 @@
+/**
+ * Record/replay of DNS sessions
+ * A recording captures every query a check session sends, with the response or error it got,
+ * as a JSON fixture. Replaying serves those answers without touching the network, so a verdict
+ * can be reproduced from a bug report, demoed offline or used as a regression test.
+ */
+
+import { normalizeName, parseRecordType, recordTypeName } from './DnsMessage';
+import { attachRecordData } from './DnsRecordData';
+import { DohError, DohHttpError, DohNetworkError, DohParseError, DohTimeoutError } from './DohResolver';
+import type { DnsQuery, DnsResponse } from './DohResolver';
+import type { DnsTransport } from './DnsTransport';
+
+export const DNS_FIXTURE_VERSION = 1;
+
+/**
+ * One query and what came back
+ */
+export interface DnsFixtureEntry {
+  /** The transport id of the server queried, e.g. "https://dns.google/resolve" */
+  server: string;
+  name: string;
+  type: number;
+  dnssecOk: boolean;
+  checkingDisabled: boolean;
+  response?: DnsResponse;
+  error?: DnsFixtureError;
+  elapsedMs: number;
+}
+
+/**
+ * A recorded error, with the fields needed to rebuild its typed class
+ */
+export interface DnsFixtureError {
+  name: string;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+  timeout?: number;
+}
+
+/**
+ * A recorded session, as saved to disk
+ */
+export interface DnsFixture {
+  version: number;
+  /** When recording started, in Unix seconds; replays validate DNSSEC signatures against this time */
+  recordedAt: number;
+  entries: DnsFixtureEntry[];
+}
+
+/**
+ * Thrown when a replayed session has no answer for a query
+ */
+export class DnsReplayMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DnsReplayMissError';
+  }
+}
+
+const describeQuery = (packet: DnsQuery) => {
+  const question = packet.questions[0];
+  return {
+    name: normalizeName(question.name),
+    type: parseRecordType(question.type),
+    dnssecOk: packet.edns?.dnssecOk ?? false,
+    checkingDisabled: (packet.flags & 0x10) !== 0
+  };
+};
+
+const serializeError = (error: unknown): DnsFixtureError => {
+  if (error instanceof DohHttpError) {
+    return { name: error.name, message: error.message, status: error.status, retryAfterMs: error.retryAfterMs };
+  }
+  if (error instanceof DohTimeoutError) {
+    return { name: error.name, message: error.message, timeout: error.timeout };
+  }
+  const { name, message } = error instanceof Error ? error : new Error(String(error));
+  return { name, message };
+};
+
+/**
+ * Rebuild a recorded error as the class it was thrown as, so replays classify it the same way
+ */
+const reviveError = (recorded: DnsFixtureError): Error => {
+  let error: Error;
+  switch (recorded.name) {
+    case 'DohHttpError':
+      error = new DohHttpError(recorded.status ?? 0, '', '', recorded.retryAfterMs);
+      break;
+    case 'DohTimeoutError':
+      error = new DohTimeoutError('', recorded.timeout ?? 0);
+      break;
+    case 'DohNetworkError':
+      error = new DohNetworkError(recorded.message);
+      break;
+    case 'DohParseError':
+    case 'ObliviousDohError':
+      error = new DohParseError(recorded.message);
+      break;
+    default:
+      error = recorded.name.startsWith('Doh') ? new DohError(recorded.message) : new Error(recorded.message);
+  }
+  error.name = recorded.name;
+  error.message = recorded.message;
+  return error;
+};
+
+/**
+ * Collects the queries of a session
+ */
+export class DnsRecorder {
+  private entries: DnsFixtureEntry[] = [];
+  private recordedAt = Math.floor(Date.now() / 1000);
+
+  /**
+   * Add a query outcome to the recording
+   * @param entry the query and its response or error
+   */
+  add(entry: DnsFixtureEntry): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Get the recording as a fixture, ready for JSON.stringify
+   */
+  toFixture(): DnsFixture {
+    return { version: DNS_FIXTURE_VERSION, recordedAt: this.recordedAt, entries: [...this.entries] };
+  }
+}
+
+/**
+ * Sends queries through another transport and records the outcome
+ */
+export class RecordingTransport implements DnsTransport {
+  readonly id: string;
+  private inner: DnsTransport;
+  private recorder: DnsRecorder;
+
+  /**
+   * @param inner the transport that actually sends the queries
+   * @param recorder where to record them
+   */
+  constructor(inner: DnsTransport, recorder: DnsRecorder) {
+    this.id = inner.id;
+    this.inner = inner;
+    this.recorder = recorder;
+  }
+
+  async send(packet: DnsQuery, timeout: number, signal?: AbortSignal): Promise<DnsResponse> {
+    const started = Date.now();
+    const entry = { server: this.id, ...describeQuery(packet) };
+
+    try {
+      const response = await this.inner.send(packet, timeout, signal);
+      // Structured RDATA is derived from `data`, so it's left out of the fixture and rebuilt on replay
+      const stored = structuredClone(response);
+      for (const record of [...(stored.Answer ?? []), ...(stored.Authority ?? []), ...(stored.Additional ?? [])]) {
+        delete record.rdata;
+      }
+      this.recorder.add({ ...entry, response: stored, elapsedMs: Date.now() - started });
+      return response;
+    } catch (error) {
+      // A cancelled query never got an outcome worth replaying
+      if (!signal?.aborted) {
+        this.recorder.add({ ...entry, error: serializeError(error), elapsedMs: Date.now() - started });
+      }
+      throw error;
+    }
+  }
+}
+
+export interface DnsReplayerOptions {
+  /**
+   * Map query names to the name to match fixtures on, for names that differ between runs
+   * (e.g. randomly generated wildcard probes)
+   */
+  matchName?: (name: string) => string;
+}
+
+/**
+ * Answers queries from a recorded fixture
+ */
+export class DnsReplayer {
+  readonly fixture: DnsFixture;
+  private matchName: (name: string) => string;
+  // Entries for the same query are served in recorded order, repeating the last one once exhausted
+  private served = new Map<DnsFixtureEntry[], number>();
+  private byQuery = new Map<string, DnsFixtureEntry[]>();
+  private byQuestion = new Map<string, DnsFixtureEntry[]>();
+
+  /**
+   * @param fixture the recorded session
+   * @param options how to match queries to recorded entries
+   */
+  constructor(fixture: DnsFixture, options: DnsReplayerOptions = {}) {
+    if (fixture.version !== DNS_FIXTURE_VERSION || !Array.isArray(fixture.entries)) {
+      throw new Error(`Unsupported DNS fixture version ${fixture.version}`);
+    }
+    this.fixture = fixture;
+    this.matchName = options.matchName ?? (name => name);
+
+    for (const entry of fixture.entries) {
+      const question = this.questionKey(entry);
+      this.byQuery.set(`${entry.server}|${question}`, [...(this.byQuery.get(`${entry.server}|${question}`) ?? []), entry]);
+      this.byQuestion.set(question, [...(this.byQuestion.get(question) ?? []), entry]);
+    }
+  }
+
+  /**
+   * Find the recorded outcome of a query
+   * @param server the transport id the query is addressed to
+   * @param packet the query
+   * @returns The recorded entry
+   * @throws {DnsReplayMissError} If the fixture has no matching query
+   */
+  lookup(server: string, packet: DnsQuery): DnsFixtureEntry {
+    const query = describeQuery(packet);
+    const question = this.questionKey(query);
+    // Fall back to the same question asked of another server: provider rotation can differ between runs
+    const candidates = this.byQuery.get(`${server}|${question}`) ?? this.byQuestion.get(question);
+    if (!candidates) {
+      throw new DnsReplayMissError(`No recorded answer for ${query.name} ${recordTypeName(query.type)} from ${server}`);
+    }
+
+    const index = this.served.get(candidates) ?? 0;
+    this.served.set(candidates, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+
+  private questionKey(query: { name: string; type: number; dnssecOk: boolean; checkingDisabled: boolean }): string {
+    return [this.matchName(query.name), query.type, query.dnssecOk ? 'do' : '', query.checkingDisabled ? 'cd' : ''].join('|');
+  }
+}
+
+/**
+ * Serves a server's queries from a replayed session
+ */
+export class ReplayTransport implements DnsTransport {
+  readonly id: string;
+  private replayer: DnsReplayer;
+
+  /**
+   * @param replayer the session to replay
+   * @param id the transport id of the server being stood in for
+   */
+  constructor(replayer: DnsReplayer, id: string) {
+    this.id = id;
+    this.replayer = replayer;
+  }
+
+  async send(packet: DnsQuery): Promise<DnsResponse> {
+    const entry = this.replayer.lookup(this.id, packet);
+    if (entry.error) {
+      throw reviveError(entry.error);
+    }
+    return attachRecordData(structuredClone(entry.response as DnsResponse));
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Pluggable DNS transports
+ * `DohResolver` speaks HTTPS by default; a transport swaps that for Oblivious DoH,
+ * DNS over TLS (RFC 7858) or plain TCP (RFC 7766) where the runtime offers raw sockets.
+ */
+
+import { encodeQuery } from './DnsMessage';
+import { attachRecordData } from './DnsRecordData';
+import { DohNetworkError, DohTimeoutError, decodeWireResponse, sendDohMsg } from './DohResolver';
+import type { DnsQuery, DnsResponse } from './DohResolver';
+import { sendOdohMsg } from './ObliviousDoh';
+import type { ObliviousDohOptions } from './ObliviousDoh';
+
+export const DNS_OVER_TLS_PORT = 853;
+export const DNS_OVER_TCP_PORT = 53;
+
+/**
+ * Sends a DNS query message and returns the response
+ */
+export interface DnsTransport {
+  /** Identifies the server and protocol, e.g. "tls://dns.quad9.net:853"; used in cache keys and logs */
+  readonly id: string;
+  /**
+   * @param signal cancels the query, which then rejects with the signal's reason
+   */
+  send(packet: DnsQuery, timeout: number, signal?: AbortSignal): Promise<DnsResponse>;
+}
+
+/**
+ * Thrown when a transport can't be used in the current runtime
+ */
+export class DnsTransportUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DnsTransportUnavailableError';
+  }
+}
+
+/**
+ * DNS over HTTPS (RFC 8484), the resolver's default
+ */
+export class HttpsTransport implements DnsTransport {
+  readonly id: string;
+  private url: string;
+  private method: string;
+  private headers: Record<string, string>;
+
+  /**
+   * @param url the DoH endpoint
+   * @param method Must be either "GET" or "POST"
+   * @param headers HTTP headers to send (an Accept of "application/dns-json" selects the JSON API for GET)
+   */
+  constructor(url: string, method: string = 'POST', headers: Record<string, string> = {}) {
+    this.id = url;
+    this.url = url;
+    this.method = method;
+    this.headers = headers;
+  }
+
+  send(packet: DnsQuery, timeout: number, signal?: AbortSignal): Promise<DnsResponse> {
+    return sendDohMsg(packet, this.url, this.method, this.headers, timeout, signal);
+  }
+}
+
+/**
+ * Oblivious DNS over HTTPS (RFC 9230) through a proxy
+ */
+export class ObliviousDohTransport implements DnsTransport {
+  readonly id: string;
+  private options: ObliviousDohOptions;
+
+  /**
+   * @param options the proxy and target to use
+   */
+  constructor(options: ObliviousDohOptions) {
+    this.id = `odoh:${options.targetUrl}`;
+    this.options = options;
+  }
+
+  send(packet: DnsQuery, timeout: number, signal?: AbortSignal): Promise<DnsResponse> {
+    return sendOdohMsg(packet, this.options, timeout, signal);
+  }
+}
+
+/**
+ * A connected byte stream, shaped like a Cloudflare Workers `Socket`
+ */
+export interface DnsSocket {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+  close(): void | Promise<void>;
+}
+
+export interface SocketConnectOptions {
+  hostname: string;
+  port: number;
+  tls: boolean;
+  /** TLS server name to verify, defaults to `hostname` */
+  servername?: string;
+}
+
+export type SocketConnector = (options: SocketConnectOptions) => Promise<DnsSocket>;
+
+// Module specifiers are kept in variables so client bundles don't try to resolve server-only modules
+const CLOUDFLARE_SOCKETS_MODULE = 'cloudflare:sockets';
+const NODE_NET_MODULE = 'node:net';
+const NODE_TLS_MODULE = 'node:tls';
+const NODE_STREAM_MODULE = 'node:stream';
+
+/**
+ * Open a socket with the Cloudflare Workers TCP sockets API
+ * Note that Workers can't connect to Cloudflare's own IP ranges, so 1.1.1.1 is unreachable this way.
+ */
+export const connectCloudflareSocket: SocketConnector = async ({ hostname, port, tls }) => {
+  const { connect } = await import(/* @vite-ignore */ CLOUDFLARE_SOCKETS_MODULE);
+  const socket = connect({ hostname, port }, { secureTransport: tls ? 'on' : 'off', allowHalfOpen: false });
+  await socket.opened;
+  return { readable: socket.readable, writable: socket.writable, close: () => socket.close() };
+};
+
+/**
+ * Open a socket with Node's net/tls modules, exposed as web streams
+ */
+export const connectNodeSocket: SocketConnector = async ({ hostname, port, tls, servername }) => {
+  const [{ Duplex }, socketModule] = await Promise.all([
+    import(/* @vite-ignore */ NODE_STREAM_MODULE),
+    import(/* @vite-ignore */ tls ? NODE_TLS_MODULE : NODE_NET_MODULE)
+  ]);
+  const socket = tls
+    ? socketModule.connect({ host: hostname, port, servername: servername ?? hostname })
+    : socketModule.connect({ host: hostname, port });
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once(tls ? 'secureConnect' : 'connect', resolve);
+    socket.once('error', reject);
+  });
+
+  const { readable, writable } = Duplex.toWeb(socket);
+  return { readable, writable, close: () => socket.destroy() };
+};
+
+/**
+ * Pick the socket API of the current runtime
+ * @returns A connector for Cloudflare Workers or Node
+ * @throws {DnsTransportUnavailableError} In browsers, which have no raw sockets
+ */
+export function detectSocketConnector(): SocketConnector {
+  if (globalThis.navigator?.userAgent === 'Cloudflare-Workers') {
+    return connectCloudflareSocket;
+  }
+  if ((globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node) {
+    return connectNodeSocket;
+  }
+  throw new DnsTransportUnavailableError('TCP and TLS DNS transports need a server runtime (Cloudflare Workers or Node)');
+}
+
+/**
+ * Read exactly one length-prefixed DNS message from a stream (RFC 1035 section 4.2.2)
+ */
+const readFramedMessage = async (readable: ReadableStream<Uint8Array>): Promise<Uint8Array> => {
+  const reader = readable.getReader();
+  let buffered = new Uint8Array(0);
+
+  try {
+    while (buffered.length < 2 || buffered.length < 2 + ((buffered[0] << 8) | buffered[1])) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new DohNetworkError('Connection closed before the DNS response was complete');
+      }
+      const next = new Uint8Array(buffered.length + value.length);
+      next.set(buffered);
+      next.set(value, buffered.length);
+      buffered = next;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return buffered.slice(2, 2 + ((buffered[0] << 8) | buffered[1]));
+};
+
+export interface SocketTransportOptions {
+  hostname: string;
+  /** Defaults to 853 for TLS and 53 for TCP */
+  port?: number;
+  /** DNS over TLS (RFC 7858) when true, plain DNS over TCP otherwise */
+  tls: boolean;
+  /** TLS server name to verify, defaults to `hostname` (ignored on Cloudflare Workers, which verify `hostname`) */
+  servername?: string;
+  /** Defaults to the runtime's socket API */
+  connector?: SocketConnector;
+}
+
+/**
+ * DNS over TLS or TCP, one connection per query
+ */
+export class SocketTransport implements DnsTransport {
+  readonly id: string;
+  private options: SocketTransportOptions & { port: number };
+
+  /**
+   * @param options the server to connect to and how
+   */
+  constructor(options: SocketTransportOptions) {
+    this.options = { ...options, port: options.port ?? (options.tls ? DNS_OVER_TLS_PORT : DNS_OVER_TCP_PORT) };
+    this.id = `${options.tls ? 'tls' : 'tcp'}://${this.options.hostname}:${this.options.port}`;
+  }
+
+  async send(packet: DnsQuery, timeout: number, signal?: AbortSignal): Promise<DnsResponse> {
+    signal?.throwIfAborted();
+    const connector = this.options.connector ?? detectSocketConnector();
+    const message = encodeQuery(packet);
+    const framed = new Uint8Array(2 + message.length);
+    framed[0] = message.length >> 8;
+    framed[1] = message.length & 0xff;
+    framed.set(message, 2);
+
+    let socket: DnsSocket | undefined;
+    let settled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let cancel: (() => void) | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new DohTimeoutError(this.id, timeout)), timeout);
+      cancel = () => reject(signal?.reason);
+      signal?.addEventListener('abort', cancel);
+    });
+
+    const exchange = async () => {
+      try {
+        socket = await connector(this.options);
+      } catch (error) {
+        throw new DohNetworkError(`Could not connect to ${this.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      // A connection that only completes after the timeout is closed straight away
+      if (settled) {
+        await socket.close();
+        throw new DohTimeoutError(this.id, timeout);
+      }
+      const writer = socket.writable.getWriter();
+      await writer.write(framed);
+      writer.releaseLock();
+      return readFramedMessage(socket.readable);
+    };
+
+    try {
+      const response = await Promise.race([exchange(), timedOut]);
+      return attachRecordData(decodeWireResponse(response));
+    } finally {
+      settled = true;
+      clearTimeout(timeoutId);
+      if (cancel) {
+        signal?.removeEventListener('abort', cancel);
+      }
+      await socket?.close();
+    }
+  }
+}
@@ -3,23 +3,109 @@
  * Based on the RFC 8484 standards and best practices
  */
 
+import { encodeQuery, decodeMessage, normalizeName, parseRecordType, toBase64Url } from './DnsMessage'
+import { sharedDnsCache } from './DnsCache'
+import type { DnsCache } from './DnsCache'
+import type { DnsTransport } from './DnsTransport'
+import { attachRecordData } from './DnsRecordData'
+import type { DnsRecordData } from './DnsRecordData'
+
 /**
  * Allowed request methods for sending DNS over HTTPS requests.
  * Allowed method are "GET" or "POST"
  */
 export const ALLOWED_REQUEST_METHODS = ['GET', 'POST'];
 
+// Ceiling for a request shared by identical queries; it is abandoned sooner once every caller has stopped waiting
+const COALESCED_QUERY_TIMEOUT_MS = 60000;
+
+/**
+ * Base class for errors thrown while sending a DNS query
+ */
+export class DohError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DohError';
+  }
+}
+
 /**
  * Custom error class to be thrown when someone tries to send a DoH request
  * with a request method other than "GET" or "POST"
  */
-export class MethodNotAllowedError extends Error {
+export class MethodNotAllowedError extends DohError {
   constructor(message: string) {
     super(message);
     this.name = 'MethodNotAllowedError';
   }
 }
 
+/**
+ * The server answered with a non-2xx HTTP status
+ */
+export class DohHttpError extends DohError {
+  /** The HTTP status code */
+  status: number;
+  /** How long the server asked us to wait before retrying (Retry-After), in milliseconds */
+  retryAfterMs?: number;
+
+  constructor(status: number, statusText: string, url: string, retryAfterMs?: number) {
+    super(`HTTP Error: ${status} ${statusText} from ${url}`);
+    this.name = 'DohHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * No response arrived within the timeout
+ */
+export class DohTimeoutError extends DohError {
+  /** The timeout that expired, in milliseconds */
+  timeout: number;
+
+  constructor(target: string, timeout: number) {
+    super(`DNS request to ${target} timed out after ${timeout}ms`);
+    this.name = 'DohTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The response arrived but could not be understood (unexpected content type, malformed JSON or wire format)
+ */
+export class DohParseError extends DohError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DohParseError';
+  }
+}
+
+/**
+ * The request never got a response: DNS resolution of the server, connection or TLS failure, CORS rejection
+ */
+export class DohNetworkError extends DohError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DohNetworkError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (RFC 9110 section 10.2.3)
+ * @param value the header value, either delay-seconds or an HTTP-date
+ * @param now the current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim(), 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
 /**
  * Check if a request method is allowed
  * @param method the request method to test
@@ -37,15 +123,19 @@ export enum DnsRecordType {
   NS = 2,
   CNAME = 5,
   SOA = 6,
+  PTR = 12,
   MX = 15,
   TXT = 16,
   AAAA = 28,
   SRV = 33,
+  DNAME = 39,
+  OPT = 41,
   DNSKEY = 48,
   DS = 43,
   RRSIG = 46,
   NSEC = 47,
   NSEC3 = 50,
+  NSEC3PARAM = 51,
   CAA = 257
 }
 
@@ -61,6 +151,61 @@ export enum DnsStatusCode {
   REFUSED = 5    // Query refused
 }
 
+/**
+ * DNS resource record as it appears in the Answer/Authority/Additional sections
+ * `data` holds the RDATA in presentation format, matching the DoH JSON API
+ */
+export interface DnsResourceRecord {
+  name: string;
+  type: number;
+  TTL: number;
+  data: string;
+  /** Structured RDATA, filled in by the resolver */
+  rdata?: DnsRecordData;
+}
+
+/**
+ * EDNS(0) options for an outgoing query (RFC 6891)
+ */
+export interface EdnsOptions {
+  /** Advertised UDP payload size, defaults to 1232 (DNS flag day 2020) */
+  udpPayloadSize?: number;
+  /** Set the DNSSEC OK (DO) bit so the resolver returns RRSIG/NSEC records */
+  dnssecOk?: boolean;
+  /** Set the Checking Disabled (CD) header bit to receive unvalidated data */
+  checkingDisabled?: boolean;
+  /** Pad wire-format queries to a multiple of this many bytes (RFC 7830/8467), 0 disables padding */
+  paddingBlockSize?: number;
+  /** Send an EDNS Client Subnet option with source prefix 0 so no part of our address is forwarded (RFC 7871 section 7.1.2) */
+  suppressClientSubnet?: boolean;
+}
+
+/**
+ * Parsed EDNS(0) OPT pseudo-record from a response
+ */
+export interface DnsEdnsInfo {
+  udpPayloadSize: number;
+  version: number;
+  dnssecOk: boolean;
+  /** Raw options with hex-encoded data */
+  options: {
+    code: number;
+    data: string;
+  }[];
+  clientSubnet?: {
+    family: number;
+    sourcePrefix: number;
+    scopePrefix: number;
+    address: string;
+  };
+  paddingLength?: number;
+  /** Extended DNS Errors (RFC 8914) */
+  extendedErrors?: {
+    infoCode: number;
+    extraText: string;
+  }[];
+}
+
 /**
  * DNS Response structure
  */
@@ -75,24 +220,10 @@ export interface DnsResponse {
     name: string;
     type: number;
   }[];
-  Answer?: {
-    name: string;
-    type: number;
-    TTL: number;
-    data: string;
-  }[];
-  Authority?: {
-    name: string;
-    type: number;
-    TTL: number;
-    data: string;
-  }[];
-  Additional?: {
-    name: string;
-    type: number;
-    TTL: number;
-    data: string;
-  }[];
+  Answer?: DnsResourceRecord[];
+  Authority?: DnsResourceRecord[];
+  Additional?: DnsResourceRecord[];
+  EDNS?: DnsEdnsInfo;
   Comment?: string;
 }
 
@@ -107,15 +238,17 @@ export interface DnsQuery {
     type: string | number;
     name: string;
   }[];
+  edns?: EdnsOptions;
 }
 
 /**
  * Make a DNS query message
  * @param qname the domain name to put in the query message (e.g. example.com)
  * @param qtype the query type to put in the query message (e.g. A, AAAA, DS, DNSKEY)
+ * @param edns EDNS(0) options; when omitted the query carries no OPT record
  * @returns The DNS query message
  */
-export function makeQuery(qname: string, qtype: string | number): DnsQuery {
+export function makeQuery(qname: string, qtype: string | number, edns?: EdnsOptions): DnsQuery {
   // Determine numerical type if string provided
   let numericType: number;
   if (typeof qtype === 'string') {
@@ -128,21 +261,43 @@ export function makeQuery(qname: string, qtype: string | number): DnsQuery {
     numericType = qtype;
   }
 
+  let flags = 256; // Recursion desired (RD) flag set
+  if (edns?.checkingDisabled) {
+    flags |= 0x10; // Checking disabled (CD) flag set
+  }
+
   return {
     type: 'query',
     id: 0, // Per RFC 8484 section 4.1, ID must be set to 0
-    flags: 256, // Recursion desired (RD) flag set
-    questions: [{ type: qtype, name: qname }]
+    flags,
+    questions: [{ type: qtype, name: qname }],
+    edns
   };
 }
 
+/**
+ * Check whether a set of request headers asks for the JSON API ("application/dns-json") instead of wire format
+ * @param headers the request headers
+ * @returns True if the Accept header requests JSON
+ */
+export function acceptsJson(headers: Record<string, string>): boolean {
+  const accept = Object.entries(headers).find(([key]) => key.toLowerCase() === 'accept')?.[1] ?? '';
+  return accept.includes('application/dns-json') || accept.includes('application/json');
+}
+
 /**
  * Send a DNS message over HTTPS
+ *
+ * GET requests use the JSON API (`?name=&type=`) when the Accept header asks for JSON,
+ * and the RFC 8484 `?dns=` base64url parameter otherwise. POST requests always carry
+ * a wire-format body. Wire-format responses are decoded into the `DnsResponse` shape.
+ *
  * @param packet the DNS query message to send
  * @param url the url to send the DNS message to
  * @param method the request method to use ("GET" or "POST")
  * @param headers headers to send in the DNS request
  * @param timeout the number of milliseconds to wait for a response before aborting the request
+ * @param signal cancels the request; it then rejects with the signal's reason rather than a DohError
  * @returns the response (if we got any)
  */
 export async function sendDohMsg(
@@ -150,8 +305,11 @@ export async function sendDohMsg(
   url: string,
   method: string = 'POST',
   headers: Record<string, string> = {},
-  timeout: number = 5000
+  timeout: number = 5000,
+  signal?: AbortSignal
 ): Promise<DnsResponse> {
+  signal?.throwIfAborted();
+
   // Validate the method
   method = method.toUpperCase();
   if (!isMethodAllowed(method)) {
@@ -164,15 +322,17 @@ export async function sendDohMsg(
     defaultHeaders['Accept'] = 'application/dns-json';
   } else if (method === 'POST') {
     defaultHeaders['Accept'] = 'application/dns-message';
-    defaultHeaders['Content-Type'] = 'application/dns-message';
   }
 
   // Merge default and custom headers
   const mergedHeaders = { ...defaultHeaders, ...headers };
+  const useJsonApi = method === 'GET' && acceptsJson(mergedHeaders);
 
   // Set up timeout with AbortController
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
 
   try {
     // Prepare options based on method
@@ -182,61 +342,114 @@ export async function sendDohMsg(
       signal: controller.signal
     };
 
-    // For GET method, we need to convert the packet to DNS wire format and encode it for URL
-    // For POST method, we need to send the packet in the body
     let fetchUrl = url;
-    if (method === 'GET') {
-      // For GET, use dns-json format which most providers support via URL params
+    if (useJsonApi) {
+      // JSON API (application/dns-json) takes the question as URL params
       if (packet.questions && packet.questions.length > 0) {
         const question = packet.questions[0];
         const params = new URLSearchParams({
           name: question.name,
           type: question.type.toString()
         });
+        // JSON API equivalents of the EDNS options (padding only applies to wire format)
+        if (packet.edns?.dnssecOk) params.set('do', '1');
+        if (packet.flags & 0x10) params.set('cd', '1');
+        if (packet.edns?.suppressClientSubnet) params.set('edns_client_subnet', '0.0.0.0/0');
         fetchUrl = `${url}?${params.toString()}`;
       } else {
-        throw new Error('Invalid DNS packet format for GET request');
+        throw new DohParseError('Invalid DNS packet format for GET request');
       }
+    } else if (method === 'GET') {
+      // RFC 8484 section 4.1: wire-format query as unpadded base64url in the "dns" param
+      const requestUrl = new URL(url);
+      requestUrl.searchParams.set('dns', toBase64Url(encodeQuery(packet)));
+      fetchUrl = requestUrl.toString();
+      mergedHeaders['Accept'] = 'application/dns-message';
     } else {
-      // For POST, we'd normally use dns-packet library to encode the message
-      // But for simplicity in this implementation, we'll assume the packet is already formatted correctly
-      // This would need to be expanded in a full implementation
-      fetchOptions.body = JSON.stringify(packet);
+      // RFC 8484 section 4.1: POST body is the wire-format query
+      mergedHeaders['Accept'] = 'application/dns-message';
+      mergedHeaders['Content-Type'] = 'application/dns-message';
+      fetchOptions.body = encodeQuery(packet).buffer as ArrayBuffer;
     }
 
     // Make the fetch request
-    const response = await fetch(fetchUrl, fetchOptions);
-
-    // Clear the timeout
-    clearTimeout(timeoutId);
+    const response = await fetchOrThrow(fetchUrl, fetchOptions);
 
     // Check if the response is ok
     if (!response.ok) {
-      throw new Error(`HTTP Error: ${response.status} ${response.statusText}`);
+      throw new DohHttpError(response.status, response.statusText, url, parseRetryAfter(response.headers.get('retry-after')));
     }
 
     // Parse the response based on content type
     const contentType = response.headers.get('content-type');
+    let result: DnsResponse;
     if (contentType?.includes('application/dns-json') || contentType?.includes('application/json')) {
-      return await response.json() as DnsResponse;
+      const body = await response.text();
+      try {
+        result = JSON.parse(body) as DnsResponse;
+      } catch {
+        throw new DohParseError(`Malformed JSON response from ${url}`);
+      }
     } else if (contentType?.includes('application/dns-message')) {
-      // In a full implementation, we'd use dns-packet to decode the wire format response
-      // But for simplicity, we'll throw an error for now
-      throw new Error('Binary DNS message format not supported in this implementation');
+      result = decodeWireResponse(new Uint8Array(await response.arrayBuffer()));
     } else {
-      throw new Error(`Unexpected content type: ${contentType}`);
+      throw new DohParseError(`Unexpected content type: ${contentType}`);
     }
+
+    // Attach structured RDATA so callers don't have to parse presentation strings
+    attachRecordData(result);
+
+    // Clear the timeout once the body has been read
+    clearTimeout(timeoutId);
+    return result;
   } catch (error) {
     // Clean up timeout if we have an error
     clearTimeout(timeoutId);
 
+    // Cancelled by the caller: not the server's fault, so not a DohError
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
     // If it's an AbortError due to our timeout, throw a more descriptive error
     if (error instanceof DOMException && error.name === 'AbortError') {
-      throw new Error(`DoH request to ${url} timed out after ${timeout}ms`);
+      throw new DohTimeoutError(url, timeout);
     }
 
     // Re-throw other errors
     throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Call fetch, turning its TypeError for connection-level failures into a DohNetworkError
+ * @param url the URL to fetch
+ * @param init the request options
+ * @returns The response
+ */
+export async function fetchOrThrow(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new DohNetworkError(`Network error: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decode a wire-format response, reporting malformed messages as a DohParseError
+ * @param bytes the DNS message
+ * @returns The decoded response
+ */
+export function decodeWireResponse(bytes: Uint8Array): DnsResponse {
+  try {
+    return decodeMessage(bytes);
+  } catch (error) {
+    throw new DohParseError(`Malformed DNS message: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
@@ -245,22 +458,30 @@ export async function sendDohMsg(
  */
 export class DohResolver {
   private nameserver_url: string;
+  private cache: DnsCache | null;
+  private transport?: DnsTransport;
 
   /**
    * Creates a new DoH resolver
    * @param nameserver_url The URL we're going to be sending DNS requests to
+   * @param cache the response cache to use; defaults to the cache shared by all resolvers, null disables caching
+   * @param transport send queries with this transport (Oblivious DoH, DNS over TLS, TCP) instead of HTTPS to `nameserver_url`
    */
-  constructor(nameserver_url: string) {
+  constructor(nameserver_url: string, cache: DnsCache | null = sharedDnsCache, transport?: DnsTransport) {
     this.nameserver_url = nameserver_url;
+    this.cache = cache;
+    this.transport = transport;
   }
 
   /**
    * Perform a DNS lookup for the given query name and type.
    * @param qname the domain name to query for (e.g. example.com)
    * @param qtype the type of record we're looking for (e.g. A, AAAA, TXT, MX)
-   * @param method Must be either "GET" or "POST"
-   * @param headers define HTTP headers to use in the DNS query
+   * @param method Must be either "GET" or "POST" (ignored when a transport is set)
+   * @param headers define HTTP headers to use in the DNS query (an Accept of "application/dns-json" selects the JSON API for GET; ignored when a transport is set)
    * @param timeout the number of milliseconds to wait for a response before aborting the request
+   * @param edns EDNS(0) options such as padding, the DO/CD bits and client subnet suppression
+   * @param signal cancels the query; it then rejects with the signal's reason rather than a DohError
    * @returns The DNS response received
    * @throws {MethodNotAllowedError} If the method is not allowed (i.e. if it's not "GET" or "POST"), a MethodNotAllowedError will be thrown.
    */
@@ -268,13 +489,46 @@ export class DohResolver {
     qname: string,
     qtype: string | number = 'A',
     method: string = 'POST',
-    headers: Record<string, string> = { 'Accept': 'application/dns-json' },
-    timeout: number = 5000
+    headers: Record<string, string> = {},
+    timeout: number = 5000,
+    edns?: EdnsOptions,
+    signal?: AbortSignal
   ): Promise<DnsResponse> {
     // Create the DNS query packet
-    const packet = makeQuery(qname, qtype);
+    const packet = makeQuery(qname, qtype, edns);
 
     // Send the DNS message and return the response
-    return sendDohMsg(packet, this.nameserver_url, method, headers, timeout);
+    const send = (sendTimeout: number, sendSignal?: AbortSignal) => this.transport
+      ? this.transport.send(packet, sendTimeout, sendSignal)
+      : sendDohMsg(packet, this.nameserver_url, method, headers, sendTimeout, sendSignal);
+    if (!this.cache) {
+      return send(timeout, signal);
+    }
+
+    // The server, the question (including the DO/CD bits) and the response format decide the
+    // answer, so GET and POST wire-format variants of the same query share an entry
+    const useJsonApi = !this.transport && method.toUpperCase() === 'GET' && acceptsJson({ 'Accept': 'application/dns-json', ...headers });
+    const cacheKey = [
+      this.transport?.id ?? this.nameserver_url,
+      useJsonApi ? 'json' : 'wire',
+      normalizeName(qname),
+      parseRecordType(qtype),
+      edns?.dnssecOk ? 'do' : '',
+      edns?.checkingDisabled ? 'cd' : ''
+    ].join('|');
+
+    // Identical concurrent queries share one request, which no caller's timeout or signal ends: each caller
+    // waits for as long as it allows, and the request is abandoned, as a timeout if that is why, once all have gone
+    signal?.throwIfAborted();
+    const waiting = new AbortController();
+    const timeoutId = setTimeout(() => waiting.abort(new DohTimeoutError(this.transport?.id ?? this.nameserver_url, timeout)), timeout);
+    const cancel = () => waiting.abort(signal?.reason);
+    signal?.addEventListener('abort', cancel);
+    try {
+      return await this.cache.resolve(cacheKey, shared => send(COALESCED_QUERY_TIMEOUT_MS, shared), waiting.signal);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', cancel);
+    }
   }
 } 
\ No newline at end of file
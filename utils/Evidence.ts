@@ -0,0 +1,181 @@
+/**
+ * Evidence
+ * What a domain check found, as typed signals: who said it, in answer to which query, what kind of signal it is,
+ * which verdict it points to and how strongly. Results carry evidence rather than prose, so the reasoning can be
+ * filtered, aggregated and exported; the text shown to people is generated from it.
+ */
+
+import type { ParkingCategory } from './ParkingProviders';
+
+/**
+ * The kinds of signal a check can find
+ * - nxdomain: a provider answered NXDOMAIN
+ * - ns-found: a provider answered NOERROR with NS/SOA records
+ * - no-records: a provider answered NOERROR without NS/SOA records
+ * - parked-ns: the domain is delegated to a known parking nameserver
+ * - txt-pattern: TXT records match parking or for-sale patterns
+ * - for-sale: TXT records offer the domain for sale, as premium domains often do
+ * - active-usage: TXT records verify the domain with some service, so it is in use
+ * - wildcard: names under the domain or its TLD resolve whether or not they exist
+ * - servfail: a provider answered SERVFAIL
+ * - dns-error: a provider answered another DNS error (REFUSED, NOTIMP...)
+ * - error: a query failed (network, timeout, HTTP...)
+ * - resolver-ad: a resolver set the AD flag (its claim, not verified here)
+ * - dnssec: the outcome of local DNSSEC validation
+ * - denial-proof: an NSEC/NSEC3 proof that the name does not exist
+ * - escalation: more providers were asked because the first answers weren't enough
+ * - query-attempt: one attempt of one query, for the record
+ * - verdict: how the signals were weighed into the status
+ * - custom: a signal of an evidence source of the app's own, weighed by its direction and weight unless a scoring rule claims it
+ */
+export type EvidenceKind =
+  | 'nxdomain'
+  | 'ns-found'
+  | 'no-records'
+  | 'parked-ns'
+  | 'txt-pattern'
+  | 'for-sale'
+  | 'active-usage'
+  | 'wildcard'
+  | 'servfail'
+  | 'dns-error'
+  | 'error'
+  | 'resolver-ad'
+  | 'dnssec'
+  | 'denial-proof'
+  | 'escalation'
+  | 'query-attempt'
+  | 'verdict'
+  | 'custom';
+
+/** The status a piece of evidence argues for */
+export type EvidenceDirection = 'registered' | 'available' | 'neutral';
+
+export type VerdictConfidence = 'high' | 'moderate' | 'low';
+
+export interface Evidence {
+  kind: EvidenceKind;
+  direction: EvidenceDirection;
+  /** How strongly it argues for its direction, from 0 (no bearing) to 1 (conclusive) */
+  weight: number;
+  /** The evidence source that contributed it, e.g. "parking-txt" */
+  source?: string;
+  /** The third-party service behind the signal, e.g. "Sedo" for its parking nameservers */
+  service?: string;
+  /** What the service's nameservers are for, for parked-ns evidence */
+  parkingCategory?: ParkingCategory;
+  /** The provider that answered, for evidence from a query */
+  provider?: string;
+  /** Whether that provider was one of the domain's primaries */
+  primary?: boolean;
+  /** The record type queried, e.g. "NS" */
+  queryType?: string;
+  /** The query attempt, counting from 1 */
+  attempt?: number;
+  /** What was found: nameservers, TXT patterns, the TLD... */
+  values?: string[];
+  /** How sure a verdict is */
+  confidence?: VerdictConfidence;
+  /** Particulars: the DNS status, an error message, how an attempt went, why a verdict was reached */
+  detail?: string;
+}
+
+/**
+ * How much each kind of signal weighs by default
+ */
+export const EVIDENCE_WEIGHTS: Record<EvidenceKind, number> = {
+  'nxdomain': 0.6,
+  'ns-found': 0.9,
+  'no-records': 0.1,
+  'parked-ns': 0.7,
+  'txt-pattern': 0.5,
+  'for-sale': 0.5,
+  'active-usage': 0.95,
+  'wildcard': 0.2,
+  'servfail': 0.4,
+  'dns-error': 0.1,
+  'error': 0.1,
+  'resolver-ad': 0,
+  'dnssec': 0,
+  'denial-proof': 1,
+  'escalation': 0,
+  'query-attempt': 0,
+  'verdict': 0,
+  'custom': 0.5
+};
+
+/**
+ * Create a piece of evidence, weighted by its kind unless a weight is given
+ */
+export function createEvidence(
+  kind: EvidenceKind,
+  direction: EvidenceDirection,
+  fields: Omit<Evidence, 'kind' | 'direction' | 'weight'> & { weight?: number } = {}
+): Evidence {
+  return { kind, direction, weight: EVIDENCE_WEIGHTS[kind], ...fields };
+}
+
+// What a parked-ns nameserver is called, by what its service uses it for
+const PARKED_NS_LABELS: Record<ParkingCategory, string> = {
+  parking: 'parking nameserver',
+  marketplace: 'marketplace nameserver',
+  expired: 'expired-domain holding nameserver',
+  registrar: 'registrar default nameserver',
+  hosting: 'hosting default nameserver'
+};
+
+const CONFIDENCE_LABELS: Record<VerdictConfidence, string> = {
+  high: 'High confidence',
+  moderate: 'Moderate confidence',
+  low: 'Low confidence'
+};
+
+/**
+ * Describe a piece of evidence in a sentence
+ */
+export function describeEvidence(evidence: Evidence): string {
+  const source = evidence.provider
+    ? `${evidence.provider}${evidence.primary ? ' (primary)' : ''}${evidence.queryType ? ` ${evidence.queryType}` : ''}`
+    : evidence.queryType ?? '';
+  const values = evidence.values?.join(', ') ?? '';
+  const detail = evidence.detail ? ` (${evidence.detail})` : '';
+
+  switch (evidence.kind) {
+    case 'nxdomain':
+      return `${source}: NXDOMAIN, the domain does not exist${detail}`;
+    case 'ns-found':
+      return `${source}: NS/SOA records found${detail}`;
+    case 'no-records':
+      return `${source}: NOERROR, but no NS/SOA records${detail}`;
+    case 'parked-ns':
+      return `${source}: ${PARKED_NS_LABELS[evidence.parkingCategory ?? 'parking']} ${values}${evidence.service ? ` of ${evidence.service}` : ''}${detail}`;
+    case 'txt-pattern':
+      return `${source}: TXT records match ${values}${detail}`;
+    case 'for-sale':
+      return `${source}: TXT records offer the domain for sale${values ? ` (${values})` : ''}`;
+    case 'active-usage':
+      return `${source}: TXT verification records show the domain in use`;
+    case 'wildcard':
+      return `Wildcard DNS${values ? ` on ${values}` : ''}${detail}`;
+    case 'servfail':
+      return `${source}: SERVFAIL${detail}`;
+    case 'dns-error':
+      return `${source}: DNS error${detail}`;
+    case 'error':
+      return `${source ? `${source}: ` : ''}${evidence.detail ?? 'query failed'}`;
+    case 'resolver-ad':
+      return `${source}: resolver reports DNSSEC validated (AD flag)`;
+    case 'dnssec':
+      return `DNSSEC local validation: ${evidence.detail ?? 'not run'}`;
+    case 'denial-proof':
+      return `Denial of existence (${values.toUpperCase()}): ${evidence.detail ?? ''}`;
+    case 'escalation':
+      return source ? `Tie-breaker ${source}: ${evidence.detail ?? ''}` : evidence.detail ?? 'Asked more providers';
+    case 'query-attempt':
+      return `${source}${evidence.attempt ? ` attempt ${evidence.attempt}` : ''}: ${evidence.detail ?? ''}`;
+    case 'verdict':
+      return evidence.confidence ? `${CONFIDENCE_LABELS[evidence.confidence]}: ${evidence.detail ?? ''}` : evidence.detail ?? '';
+    case 'custom':
+      return `${evidence.source ?? 'Custom signal'}${source ? ` (${source})` : ''}: ${evidence.detail ?? values}`;
+  }
+}
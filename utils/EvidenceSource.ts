@@ -0,0 +1,415 @@
+/**
+ * Evidence sources
+ * Where a domain check's signals come from, besides the answers to its NS queries. A source declares the DNS
+ * queries it needs for a domain, is handed every answer to them, and returns the evidence it reads in them; the
+ * verdict scoring weighs that evidence with the rest. The wildcard probe and the parking heuristics are sources,
+ * and a source of your own (a portfolio list, a registrar's marker) is added the same way.
+ */
+
+import { DnsRecordType, DnsStatusCode } from './DohResolver';
+import type { DnsResponse } from './DohResolver';
+import { recordTypeName } from './DnsMessage';
+import { getRecordData } from './DnsRecordData';
+import { createEvidence } from './Evidence';
+import type { Evidence } from './Evidence';
+import type { ConsensusPolicy } from './ConsensusPolicy';
+import { parkingProviders } from './ParkingProviders';
+import type { ParkingCategory, ParkingProviderDatabase } from './ParkingProviders';
+
+/**
+ * A DNS query an evidence source needs answered
+ */
+export interface EvidenceQuery {
+  /** The name to query; defaults to the domain being checked */
+  name?: string;
+  /** The record type, e.g. DnsRecordType.TXT */
+  type: number;
+  /**
+   * Who is asked: every primary provider of the domain, or a single healthy provider (a probe).
+   * Answers of the primaries about the domain itself also count towards the verdict.
+   */
+  scope: 'primaries' | 'probe';
+}
+
+export interface EvidenceSourceContext {
+  /** The fully-qualified domain, e.g. "example.com" */
+  domain: string;
+  /** Its TLD with the leading dot, e.g. ".com" */
+  tld: string;
+  policy: ConsensusPolicy;
+}
+
+/**
+ * One provider's answer to one of a source's queries, or why there is none
+ */
+export interface EvidenceAnswer {
+  /** The query, with its name filled in */
+  query: Required<EvidenceQuery>;
+  provider: string;
+  /** Whether the provider was one of the domain's primaries */
+  primary: boolean;
+  response?: DnsResponse;
+  /** Why the query failed, when it did */
+  error?: string;
+}
+
+export interface EvidenceSource {
+  /** Stable id, recorded on every piece of evidence the source contributes */
+  id: string;
+  /** The queries the source needs for a domain; none for a source that works from the name alone */
+  queries: (context: EvidenceSourceContext) => EvidenceQuery[];
+  /** Read the answers to those queries, including the tie-breakers asked for NS, into evidence */
+  analyze: (answers: EvidenceAnswer[], context: EvidenceSourceContext) => Evidence[] | Promise<Evidence[]>;
+}
+
+/**
+ * Where evidence drawn from an answer came from, for `createEvidence`
+ */
+export const answerSource = (answer: EvidenceAnswer): Pick<Evidence, 'provider' | 'primary' | 'queryType'> => ({
+  provider: answer.provider,
+  primary: answer.primary,
+  queryType: recordTypeName(answer.query.type)
+});
+
+// --- Wildcard DNS ---
+
+// Known TLDs that frequently use wildcards
+const KNOWN_WILDCARD_TLDS = new Set([
+  '.tk', '.ml', '.ga', '.cf', '.gq', // Freenom TLDs
+  '.to', '.cc', '.ws', '.pw', // Several others known to use wildcards
+]);
+
+// Wildcard probes use a random label, so replayed sessions match them on the parent name only
+const WILDCARD_PROBE_LABEL = /^check-[a-z0-9]+-[a-z0-9]+\./;
+export const matchWildcardProbe = (name: string): string => name.replace(WILDCARD_PROBE_LABEL, 'check-*.');
+
+/**
+ * Wildcard DNS: a random name under the domain that resolves means any name does, which makes NXDOMAIN
+ * answers unreliable. Also flags TLDs known to use wildcards.
+ */
+export const wildcardSource: EvidenceSource = {
+  id: 'wildcard',
+  // A highly random name unlikely to exist; 'A' as wildcards commonly resolve to an IP
+  queries: ({ domain }) => [{
+    name: `check-${Math.random().toString(36).substring(2, 10)}-${Date.now().toString(36)}.${domain}`,
+    type: DnsRecordType.A,
+    scope: 'probe'
+  }],
+  analyze: (answers, { domain, tld }) => {
+    const evidence: Evidence[] = [];
+    if (KNOWN_WILDCARD_TLDS.has(tld)) {
+      evidence.push(createEvidence('wildcard', 'neutral', { values: [tld], detail: 'TLD known to commonly implement wildcards' }));
+    }
+    for (const answer of answers) {
+      if (!answer.response) {
+        // Non-fatal: the check goes on as if there were no wildcard, noting the detection failure
+        evidence.push(createEvidence('error', 'neutral', { queryType: 'Wildcard probe', detail: `Wildcard detection failed: ${answer.error ?? 'no answer'}` }));
+        continue;
+      }
+      // A resolving answer (A, CNAME or AAAA) to the random name gives the wildcard away
+      const data = answer.response;
+      const resolves = data.Answer?.some(r => [DnsRecordType.A, DnsRecordType.CNAME, DnsRecordType.AAAA].includes(r.type)) ?? false;
+      if (data.Status === DnsStatusCode.NOERROR && resolves) {
+        console.info(`[Domain Check] Wildcard detected for ${domain} via ${answer.provider} using ${answer.query.name}`);
+        evidence.push(createEvidence('wildcard', 'neutral', { values: [domain], detail: 'detected, often used for parking/catch-alls' }));
+      } else {
+        console.info(`[Domain Check] No wildcard detected for ${domain} via ${answer.provider} using ${answer.query.name} (Status: ${data.Status}, Answers: ${data.Answer?.length ?? 0})`);
+      }
+    }
+    return evidence;
+  }
+};
+
+// --- Parking ---
+
+// Comprehensive pattern definitions based on research
+const PARKING_PATTERNS = {
+    // Restrictive SPF policies
+    SPF: [
+        /^v=spf1\s+-all$/i,                   // Explicit block all
+        /^v=spf1\s+(?!.*[?~+]).*-all$/i       // Any non-permissive SPF ending with -all
+    ],
+    // Empty/null DKIM configurations
+    DKIM: [
+        /v=DKIM1;\s*p=\s*$/i,                 // Empty p parameter
+        /v=DKIM1;\s*p=["']?\s*["']?$/i,       // Empty quoted p parameter
+        /v=DKIM1;\s*k=rsa;\s*p=$/i            // RSA key with empty p
+    ],
+    // Restrictive DMARC policies
+    DMARC: [
+        /v=DMARC1;\s*p=reject/i,              // Reject policy
+        /v=DMARC1;\s*p=quarantine/i,          // Quarantine policy
+        /v=DMARC1;\s*p=reject;\s*adkim=s/i    // Strict alignment
+    ],
+    // Explicit registrar parking indicators
+    REGISTRAR: [
+        /parking_verification/i,               // Standard parking verification
+        /domain_control_validation/i,          // Domain control validation
+        /sedoparking/i,                        // Sedo parking
+        /parkingcrew/i,                        // ParkingCrew
+        /domain[-_]?parking/i                  // Generic domain parking
+    ],
+    // Premium domain markers
+    PREMIUM: [
+        /premium[-_]?domain/i,                 // Premium domain indicator
+        /domain[-_]?for[-_]?sale/i,            // For sale marker
+        /inquire.*purchase/i,                  // Purchase inquiry
+        /domainbroker/i,                       // Domain broker reference
+        /reserve[d]?[-_]?domain/i              // Reserved domain
+    ],
+    // Active domain usage signals
+    ACTIVE_USAGE: [
+        /google-site-verification=/i,          // Google site verification
+        /ms=ms\d+/i,                           // Microsoft verification
+        /facebook-domain-verification=/i,      // Facebook domain verification
+        /apple-domain-verification=/i,         // Apple domain verification
+        /docusign=.+/i,                        // DocuSign verification
+        /stripe-verification=/i                // Stripe verification
+    ]
+};
+
+// Analyze TXT records for parking and premium domain patterns
+const analyzeTxtRecordsForParking = (data: DnsResponse): {
+  isParked: boolean,
+  isPremium: boolean,
+  confidence: number,
+  matchedPatterns: string[],
+  hasActiveUsageIndicators: boolean
+} => {
+  if (!data.Answer || data.Answer.length === 0) {
+      return { isParked: false, isPremium: false, confidence: 0, matchedPatterns: [], hasActiveUsageIndicators: false };
+  }
+
+  const patternsFound = new Set<string>();
+  let hasSpf = false, hasDkim = false, hasDmarc = false,
+      hasWildcard = false, hasRegistrarMarker = false, hasPremiumMarker = false,
+      hasVerificationTxt = false;
+
+  data.Answer.forEach(record => {
+      const rdata = getRecordData(record);
+      if (rdata.type === 'TXT') {
+          const txtData = rdata.text;
+          const name = record.name.toLowerCase();
+
+          // Helper function to safely test regex with more descriptive pattern naming
+          const testPattern = (patterns: RegExp[], category: string) => {
+              patterns.forEach(pattern => {
+                  try {
+                      if (pattern.test(txtData)) {
+                          let patternDescription = '';
+                          
+                          // More descriptive pattern names based on category
+                          switch(category) {
+                              case 'SPF': 
+                                  hasSpf = true; 
+                                  patternDescription = "Restrictive SPF Policy (-all)"; 
+                                  break;
+                              case 'DKIM': 
+                                  if (name.includes('_domainkey')) { 
+                                      hasDkim = true; 
+                                      patternDescription = "Null DKIM Configuration"; 
+                                  }
+                                  break;
+                              case 'DMARC': 
+                                  if (name.startsWith('_dmarc.') || name === '_dmarc') { 
+                                      hasDmarc = true; 
+                                      patternDescription = "Restrictive DMARC Policy"; 
+                                  }
+                                  break;
+                              case 'REGISTRAR': 
+                                  hasRegistrarMarker = true; 
+                                  // Match more specific registrar patterns for better descriptions
+                                  if (txtData.includes('parkingcrew')) {
+                                      patternDescription = "ParkingCrew Parking Service";
+                                  } else if (txtData.includes('sedoparking')) {
+                                      patternDescription = "Sedo Parking Service";
+                                  } else if (txtData.includes('domain_control_validation')) {
+                                      patternDescription = "Domain Control Validation";
+                                  } else {
+                                      patternDescription = "Registrar Parking Marker";
+                                  }
+                                  break;
+                              case 'PREMIUM':
+                                  hasPremiumMarker = true;
+                                  // Match more specific premium patterns for better descriptions
+                                  if (pattern.toString().includes('premium')) {
+                                      patternDescription = "Premium Domain Marker";
+                                  } else if (pattern.toString().includes('for[-_]?sale')) {
+                                      patternDescription = "Domain For Sale Marker";
+                                  } else if (pattern.toString().includes('inquire')) {
+                                      patternDescription = "Domain Purchase Inquiry";
+                                  } else if (pattern.toString().includes('domainbroker')) {
+                                      patternDescription = "Domain Broker Reference";
+                                  } else if (pattern.toString().includes('reserve')) {
+                                      patternDescription = "Reserved Domain";
+                                  } else {
+                                      patternDescription = "Generic Premium Domain Marker";
+                                  }
+                                  break;
+                              case 'ACTIVE_USAGE':
+                                  hasVerificationTxt = true;
+                                  // Provide specific verification type descriptions
+                                  if (pattern.toString().includes('google-site-verification')) {
+                                      patternDescription = "Google Site Verification";
+                                  } else if (pattern.toString().includes('ms=ms')) {
+                                      patternDescription = "Microsoft Verification";
+                                  } else if (pattern.toString().includes('facebook')) {
+                                      patternDescription = "Facebook Domain Verification";
+                                  } else if (pattern.toString().includes('apple')) {
+                                      patternDescription = "Apple Domain Verification";
+                                  } else if (pattern.toString().includes('docusign')) {
+                                      patternDescription = "DocuSign Verification";
+                                  } else if (pattern.toString().includes('stripe')) {
+                                      patternDescription = "Stripe Verification";
+                                  } else {
+                                      patternDescription = "Service Verification TXT";
+                                  }
+                                  break;
+                          }
+                          
+                          if (patternDescription) {
+                              patternsFound.add(patternDescription);
+                          }
+                      }
+                  } catch (e) {
+                      console.error(`Regex error testing pattern ${pattern} on data: ${txtData}`, e);
+                  }
+              });
+          };
+
+          // Check for wildcard protection
+          if (name.startsWith('*.') || name.includes('.*')) {
+              if (!patternsFound.has("Wildcard DNS Protection")) { // Add only once
+                  hasWildcard = true;
+                  patternsFound.add("Wildcard DNS Protection");
+              }
+          }
+
+          // Test each category
+          testPattern(PARKING_PATTERNS.SPF, 'SPF');
+          testPattern(PARKING_PATTERNS.DKIM, 'DKIM');
+          testPattern(PARKING_PATTERNS.DMARC, 'DMARC');
+          testPattern(PARKING_PATTERNS.REGISTRAR, 'REGISTRAR');
+          testPattern(PARKING_PATTERNS.PREMIUM, 'PREMIUM');
+          testPattern(PARKING_PATTERNS.ACTIVE_USAGE, 'ACTIVE_USAGE');
+      }
+  });
+
+  // Calculate confidence score with weighted factors
+  let confidence = 0;
+  if (hasSpf) confidence += 25;
+  if (hasDkim) confidence += 20;
+  if (hasDmarc) confidence += 15;
+  if (hasWildcard) confidence += 15;
+  if (hasRegistrarMarker) confidence += 30; // Strongest signal for general parking
+  confidence = Math.min(confidence, 100);
+
+  // More refined determination of premium status
+  const isParked = confidence >= PARKED_TXT_WEIGHT * 100;
+  // Premium marker explicitly indicates a premium domain
+  // OR high confidence parking with certain pattern combinations suggests premium/for sale
+  const isPremium = hasPremiumMarker || 
+                   (isParked && confidence >= 70 && 
+                    (patternsFound.has("Domain For Sale Marker") || 
+                     patternsFound.has("Domain Broker Reference")));
+
+  return {
+      isParked,
+      isPremium,
+      confidence,
+      matchedPatterns: Array.from(patternsFound),
+      hasActiveUsageIndicators: hasVerificationTxt
+  };
+};
+
+
+/**
+ * TXT pattern evidence weighs the patterns' parking confidence; from this weight on the domain counts as parked
+ */
+export const PARKED_TXT_WEIGHT = 0.4;
+
+/**
+ * Parking nameserver evidence weighs how surely its category means parked; from this weight on the domain counts as parked
+ */
+export const PARKED_NS_WEIGHT = 0.5;
+
+// Registrars' and hosts' default nameservers also serve domains in use
+const PARKING_CATEGORY_WEIGHTS: Record<ParkingCategory, number> = {
+  parking: 0.7,
+  marketplace: 0.7,
+  expired: 0.7,
+  registrar: 0.3,
+  hosting: 0.1
+};
+
+/**
+ * Parking nameservers: a domain delegated to a parking service is registered, if only to be sold
+ * @param database who runs which nameservers
+ */
+export const createParkingNameserverSource = (database: ParkingProviderDatabase): EvidenceSource => ({
+  id: 'parking-ns',
+  queries: () => [{ type: DnsRecordType.NS, scope: 'primaries' }],
+  analyze: answers => {
+    const evidence: Evidence[] = [];
+    for (const answer of answers) {
+      if (answer.response?.Status !== DnsStatusCode.NOERROR) continue;
+      for (const record of answer.response.Answer ?? []) {
+        const rdata = getRecordData(record);
+        const provider = rdata.type === 'NS' ? database.match(rdata.nameserver) : undefined;
+        if (rdata.type === 'NS' && provider) {
+          evidence.push(createEvidence('parked-ns', 'registered', {
+            ...answerSource(answer),
+            values: [rdata.nameserver],
+            service: provider.name,
+            parkingCategory: provider.category,
+            weight: PARKING_CATEGORY_WEIGHTS[provider.category]
+          }));
+        }
+      }
+    }
+    return evidence;
+  }
+});
+
+export const parkingNameserverSource = createParkingNameserverSource(parkingProviders);
+
+/**
+ * Parking and for-sale markers in TXT records, and the verification records of a domain in use
+ */
+export const parkingTxtSource: EvidenceSource = {
+  id: 'parking-txt',
+  queries: () => [{ type: DnsRecordType.TXT, scope: 'primaries' }],
+  analyze: answers => {
+    const evidence: Evidence[] = [];
+    for (const answer of answers) {
+      if (answer.response?.Status !== DnsStatusCode.NOERROR) continue;
+      const analysis = analyzeTxtRecordsForParking(answer.response);
+      const source = answerSource(answer);
+      if (analysis.matchedPatterns.length > 0) {
+        evidence.push(createEvidence('txt-pattern', 'registered', {
+          ...source,
+          values: analysis.matchedPatterns,
+          // The parking service a marker names, e.g. "Sedo" for "Sedo Parking Service"
+          service: analysis.matchedPatterns.find(pattern => pattern.endsWith(' Parking Service'))?.replace(/ Parking Service$/, ''),
+          detail: `pattern confidence ${analysis.confidence}`,
+          weight: analysis.confidence / 100
+        }));
+      }
+      if (analysis.isPremium) {
+        evidence.push(createEvidence('for-sale', 'registered', {
+          ...source,
+          values: analysis.matchedPatterns.filter(pattern => /premium|sale|purchase|broker|reserved/i.test(pattern))
+        }));
+      }
+      if (analysis.hasActiveUsageIndicators) {
+        evidence.push(createEvidence('active-usage', 'registered', source));
+      }
+    }
+    return evidence;
+  }
+};
+
+/**
+ * The sources every check uses unless told otherwise
+ */
+export const BUILTIN_EVIDENCE_SOURCES: EvidenceSource[] = [wildcardSource, parkingNameserverSource, parkingTxtSource];
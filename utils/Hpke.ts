@@ -0,0 +1,205 @@
+/**
+ * Hybrid Public Key Encryption (RFC 9180), base mode only
+ * Supports the suite Oblivious DoH deployments use: DHKEM(X25519, HKDF-SHA256), HKDF-SHA256, AES-128-GCM.
+ * Built on WebCrypto so it runs in browsers, workers and Node alike.
+ */
+
+export const HPKE_KEM_X25519_HKDF_SHA256 = 0x0020;
+export const HPKE_KDF_HKDF_SHA256 = 0x0001;
+export const HPKE_AEAD_AES_128_GCM = 0x0001;
+
+const MODE_BASE = 0x00;
+// Nsecret/Nenc/Npk for the KEM, Nh for the KDF, Nk/Nn for the AEAD (RFC 9180 section 7)
+const KEM_SECRET_LENGTH = 32;
+const KEM_ENC_LENGTH = 32;
+const KDF_HASH_LENGTH = 32;
+const AEAD_KEY_LENGTH = 16;
+const AEAD_NONCE_LENGTH = 12;
+
+/**
+ * Thrown when a key, ciphertext or suite cannot be used
+ */
+export class HpkeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HpkeError';
+  }
+}
+
+/**
+ * An HPKE context for one direction of a single-shot exchange
+ */
+export interface HpkeContext {
+  /** Encrypt the next message */
+  seal: (aad: Uint8Array, plaintext: Uint8Array) => Promise<Uint8Array>;
+  /** Decrypt the next message */
+  open: (aad: Uint8Array, ciphertext: Uint8Array) => Promise<Uint8Array>;
+  /** Derive a secret from the exporter secret (RFC 9180 section 5.3) */
+  export: (exporterContext: Uint8Array, length: number) => Promise<Uint8Array>;
+}
+
+export interface HpkeKeyPair {
+  publicKey: Uint8Array;
+  privateKey: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+/**
+ * Encode an integer as a big-endian byte string of the given length (I2OSP)
+ */
+export const i2osp = (value: number, length: number): Uint8Array => {
+  const output = new Uint8Array(length);
+  for (let i = length - 1, remaining = value; i >= 0; i--, remaining = Math.floor(remaining / 256)) {
+    output[i] = remaining & 0xff;
+  }
+  return output;
+};
+
+const hmacSha256 = async (key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const hmacKey = await crypto.subtle.importKey('raw', key as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data as BufferSource));
+};
+
+/**
+ * HKDF-Extract with SHA-256 (RFC 5869 section 2.2)
+ * @param salt the salt; an empty salt is replaced by a string of zeros
+ * @param ikm the input keying material
+ * @returns The pseudorandom key
+ */
+export async function hkdfExtract(salt: Uint8Array, ikm: Uint8Array): Promise<Uint8Array> {
+  return hmacSha256(salt.length > 0 ? salt : new Uint8Array(KDF_HASH_LENGTH), ikm);
+}
+
+/**
+ * HKDF-Expand with SHA-256 (RFC 5869 section 2.3)
+ * @param prk the pseudorandom key
+ * @param info the context information
+ * @param length the number of bytes to produce
+ * @returns The output keying material
+ */
+export async function hkdfExpand(prk: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  if (length > 255 * KDF_HASH_LENGTH) {
+    throw new HpkeError(`HKDF-Expand output of ${length} bytes is too long`);
+  }
+  const output = new Uint8Array(length);
+  let previous: Uint8Array = new Uint8Array(0);
+  for (let counter = 1, offset = 0; offset < length; counter++) {
+    previous = await hmacSha256(prk, concatBytes(previous, info, new Uint8Array([counter])));
+    output.set(previous.subarray(0, length - offset), offset);
+    offset += previous.length;
+  }
+  return output;
+}
+
+const labeledExtract = (suiteId: Uint8Array, salt: Uint8Array, label: string, ikm: Uint8Array) =>
+  hkdfExtract(salt, concatBytes(encoder.encode('HPKE-v1'), suiteId, encoder.encode(label), ikm));
+
+const labeledExpand = (suiteId: Uint8Array, prk: Uint8Array, label: string, info: Uint8Array, length: number) =>
+  hkdfExpand(prk, concatBytes(i2osp(length, 2), encoder.encode('HPKE-v1'), suiteId, encoder.encode(label), info), length);
+
+const KEM_SUITE_ID = concatBytes(encoder.encode('KEM'), i2osp(HPKE_KEM_X25519_HKDF_SHA256, 2));
+const HPKE_SUITE_ID = concatBytes(
+  encoder.encode('HPKE'),
+  i2osp(HPKE_KEM_X25519_HKDF_SHA256, 2),
+  i2osp(HPKE_KDF_HKDF_SHA256, 2),
+  i2osp(HPKE_AEAD_AES_128_GCM, 2)
+);
+
+const importX25519PublicKey = async (publicKey: Uint8Array): Promise<CryptoKey> => {
+  if (publicKey.length !== KEM_ENC_LENGTH) {
+    throw new HpkeError(`X25519 public keys are ${KEM_ENC_LENGTH} bytes, got ${publicKey.length}`);
+  }
+  return crypto.subtle.importKey('raw', publicKey as BufferSource, { name: 'X25519' }, true, []);
+};
+
+const x25519 = async (privateKey: CryptoKey, publicKey: Uint8Array): Promise<Uint8Array> => {
+  const bits = await crypto.subtle.deriveBits({ name: 'X25519', public: await importX25519PublicKey(publicKey) }, privateKey, 256);
+  return new Uint8Array(bits);
+};
+
+/**
+ * Generate an X25519 key pair
+ * @returns The raw public key and the private key handle
+ */
+export async function generateHpkeKeyPair(): Promise<HpkeKeyPair> {
+  const keyPair = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+  return {
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey) as ArrayBuffer),
+    privateKey: keyPair.privateKey
+  };
+}
+
+const extractAndExpand = async (dh: Uint8Array, kemContext: Uint8Array): Promise<Uint8Array> => {
+  const eaePrk = await labeledExtract(KEM_SUITE_ID, new Uint8Array(0), 'eae_prk', dh);
+  return labeledExpand(KEM_SUITE_ID, eaePrk, 'shared_secret', kemContext, KEM_SECRET_LENGTH);
+};
+
+const keySchedule = async (sharedSecret: Uint8Array, info: Uint8Array): Promise<HpkeContext> => {
+  const pskIdHash = await labeledExtract(HPKE_SUITE_ID, new Uint8Array(0), 'psk_id_hash', new Uint8Array(0));
+  const infoHash = await labeledExtract(HPKE_SUITE_ID, new Uint8Array(0), 'info_hash', info);
+  const context = concatBytes(new Uint8Array([MODE_BASE]), pskIdHash, infoHash);
+
+  const secret = await labeledExtract(HPKE_SUITE_ID, sharedSecret, 'secret', new Uint8Array(0));
+  const key = await labeledExpand(HPKE_SUITE_ID, secret, 'key', context, AEAD_KEY_LENGTH);
+  const baseNonce = await labeledExpand(HPKE_SUITE_ID, secret, 'base_nonce', context, AEAD_NONCE_LENGTH);
+  const exporterSecret = await labeledExpand(HPKE_SUITE_ID, secret, 'exp', context, KDF_HASH_LENGTH);
+
+  const aeadKey = await crypto.subtle.importKey('raw', key as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  let sequence = 0;
+  const nextNonce = () => {
+    const nonce = baseNonce.slice();
+    const counter = i2osp(sequence++, AEAD_NONCE_LENGTH);
+    for (let i = 0; i < nonce.length; i++) nonce[i] ^= counter[i];
+    return nonce;
+  };
+
+  return {
+    seal: async (aad, plaintext) =>
+      new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nextNonce() as BufferSource, additionalData: aad as BufferSource }, aeadKey, plaintext as BufferSource)),
+    open: async (aad, ciphertext) => {
+      try {
+        return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nextNonce() as BufferSource, additionalData: aad as BufferSource }, aeadKey, ciphertext as BufferSource));
+      } catch {
+        throw new HpkeError('HPKE ciphertext failed authentication');
+      }
+    },
+    export: (exporterContext, length) => labeledExpand(HPKE_SUITE_ID, exporterSecret, 'sec', exporterContext, length)
+  };
+};
+
+/**
+ * Set up a sender context to encrypt to a recipient's public key (SetupBaseS)
+ * @param recipientPublicKey the recipient's raw X25519 public key
+ * @param info application-supplied context information
+ * @returns The encapsulated key to send along with the ciphertext, and the sender context
+ */
+export async function setupBaseSender(recipientPublicKey: Uint8Array, info: Uint8Array): Promise<{ enc: Uint8Array; context: HpkeContext }> {
+  const ephemeral = await generateHpkeKeyPair();
+  const dh = await x25519(ephemeral.privateKey, recipientPublicKey);
+  const sharedSecret = await extractAndExpand(dh, concatBytes(ephemeral.publicKey, recipientPublicKey));
+  return { enc: ephemeral.publicKey, context: await keySchedule(sharedSecret, info) };
+}
+
+/**
+ * Set up a recipient context from an encapsulated key (SetupBaseR)
+ * @param enc the encapsulated key sent by the sender
+ * @param recipient the recipient's key pair
+ * @param info application-supplied context information
+ * @returns The recipient context
+ */
+export async function setupBaseRecipient(enc: Uint8Array, recipient: HpkeKeyPair, info: Uint8Array): Promise<HpkeContext> {
+  const dh = await x25519(recipient.privateKey, enc);
+  const sharedSecret = await extractAndExpand(dh, concatBytes(enc, recipient.publicKey));
+  return keySchedule(sharedSecret, info);
+}
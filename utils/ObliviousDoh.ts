@@ -0,0 +1,325 @@
+/**
+ * Oblivious DNS over HTTPS (RFC 9230)
+ * Queries are HPKE-encrypted to the target resolver and relayed by a separate proxy,
+ * so the proxy sees who is asking but not what, and the target sees what but not who.
+ */
+
+import { encodeQuery } from './DnsMessage';
+import { attachRecordData } from './DnsRecordData';
+import { DohHttpError, DohParseError, DohTimeoutError, decodeWireResponse, fetchOrThrow, parseRetryAfter } from './DohResolver';
+import type { DnsQuery, DnsResponse } from './DohResolver';
+import {
+  HPKE_AEAD_AES_128_GCM,
+  HPKE_KDF_HKDF_SHA256,
+  HPKE_KEM_X25519_HKDF_SHA256,
+  concatBytes,
+  hkdfExpand,
+  hkdfExtract,
+  i2osp,
+  setupBaseSender
+} from './Hpke';
+import type { HpkeContext } from './Hpke';
+
+export const ODOH_CONTENT_TYPE = 'application/oblivious-dns-message';
+
+const ODOH_VERSION = 0x0001;
+const MESSAGE_TYPE_QUERY = 0x01;
+const MESSAGE_TYPE_RESPONSE = 0x02;
+// Nh of HKDF-SHA256, Nk/Nn of AES-128-GCM
+const KDF_HASH_LENGTH = 32;
+const AEAD_KEY_LENGTH = 16;
+const AEAD_NONCE_LENGTH = 12;
+
+const encoder = new TextEncoder();
+
+/**
+ * How to reach an Oblivious DoH target
+ */
+export interface ObliviousDohOptions {
+  /** The oblivious proxy; may be relative to the page, e.g. "/api/odoh-proxy" */
+  proxyUrl: string;
+  /** The target resolver; its host and path are passed to the proxy as `targethost`/`targetpath` */
+  targetUrl: string;
+  /** Where to fetch the target's ObliviousDoHConfigs, defaults to https://<target host>/.well-known/odohconfigs */
+  configUrl?: string;
+}
+
+/**
+ * A target's public key configuration (RFC 9230 section 6)
+ */
+export interface ObliviousDohConfig {
+  kemId: number;
+  kdfId: number;
+  aeadId: number;
+  publicKey: Uint8Array;
+  /** The serialized ObliviousDoHConfigContents */
+  contents: Uint8Array;
+  /** Identifies the config to the target */
+  keyId: Uint8Array;
+}
+
+/**
+ * Thrown when ODoH configs or messages are malformed, or fail to decrypt
+ */
+export class ObliviousDohError extends DohParseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ObliviousDohError';
+  }
+}
+
+/**
+ * State kept between encrypting a query and decrypting its response
+ */
+interface PendingQuery {
+  context: HpkeContext;
+  queryPlaintext: Uint8Array;
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number): number => {
+  if (offset + 2 > bytes.length) {
+    throw new ObliviousDohError('Truncated ODoH data');
+  }
+  return (bytes[offset] << 8) | bytes[offset + 1];
+};
+
+/**
+ * Read a 16-bit length-prefixed byte string
+ * @returns The bytes and the offset after them
+ */
+const readVector = (bytes: Uint8Array, offset: number): [Uint8Array, number] => {
+  const length = readUint16(bytes, offset);
+  const start = offset + 2;
+  if (start + length > bytes.length) {
+    throw new ObliviousDohError('Truncated ODoH data');
+  }
+  return [bytes.slice(start, start + length), start + length];
+};
+
+const writeVector = (bytes: Uint8Array): Uint8Array => concatBytes(i2osp(bytes.length, 2), bytes);
+
+/**
+ * Compute the key identifier of a config (RFC 9230 section 6.2)
+ * @param contents the serialized ObliviousDoHConfigContents
+ * @returns The key identifier
+ */
+export async function computeKeyId(contents: Uint8Array): Promise<Uint8Array> {
+  return hkdfExpand(await hkdfExtract(new Uint8Array(0), contents), encoder.encode('odoh key id'), KDF_HASH_LENGTH);
+}
+
+/**
+ * Parse an ObliviousDoHConfigs structure, keeping the configs we can use
+ * @param bytes the body served at /.well-known/odohconfigs
+ * @returns The supported configs, most preferred first
+ */
+export async function parseObliviousDohConfigs(bytes: Uint8Array): Promise<ObliviousDohConfig[]> {
+  const [list] = readVector(bytes, 0);
+  const configs: ObliviousDohConfig[] = [];
+
+  for (let offset = 0; offset < list.length;) {
+    const version = readUint16(list, offset);
+    const [contents, next] = readVector(list, offset + 2);
+    offset = next;
+
+    // Unknown versions must be skipped (RFC 9230 section 6.1)
+    if (version !== ODOH_VERSION) continue;
+
+    const kemId = readUint16(contents, 0);
+    const kdfId = readUint16(contents, 2);
+    const aeadId = readUint16(contents, 4);
+    const [publicKey] = readVector(contents, 6);
+    if (kemId !== HPKE_KEM_X25519_HKDF_SHA256 || kdfId !== HPKE_KDF_HKDF_SHA256 || aeadId !== HPKE_AEAD_AES_128_GCM) continue;
+
+    configs.push({ kemId, kdfId, aeadId, publicKey, contents, keyId: await computeKeyId(contents) });
+  }
+
+  return configs;
+}
+
+/**
+ * Encrypt a DNS message for the target (RFC 9230 section 6.3)
+ * @param config the target's config
+ * @param dnsMessage the wire-format DNS query
+ * @returns The ObliviousDoHMessage to send, and the state needed to decrypt the response
+ */
+export async function encryptObliviousQuery(config: ObliviousDohConfig, dnsMessage: Uint8Array): Promise<{ message: Uint8Array; pending: PendingQuery }> {
+  // The DNS message carries EDNS padding already, so the ODoH padding field stays empty
+  const queryPlaintext = concatBytes(writeVector(dnsMessage), writeVector(new Uint8Array(0)));
+  const aad = concatBytes(new Uint8Array([MESSAGE_TYPE_QUERY]), writeVector(config.keyId));
+
+  const { enc, context } = await setupBaseSender(config.publicKey, encoder.encode('odoh query'));
+  const ciphertext = await context.seal(aad, queryPlaintext);
+
+  return {
+    message: concatBytes(aad, writeVector(concatBytes(enc, ciphertext))),
+    pending: { context, queryPlaintext }
+  };
+}
+
+/**
+ * Decrypt the target's response (RFC 9230 section 6.4)
+ * @param pending the state returned by encryptObliviousQuery
+ * @param message the ObliviousDoHMessage received
+ * @returns The wire-format DNS response
+ */
+export async function decryptObliviousResponse(pending: PendingQuery, message: Uint8Array): Promise<Uint8Array> {
+  if (message[0] !== MESSAGE_TYPE_RESPONSE) {
+    throw new ObliviousDohError(`Expected an ODoH response message, got type ${message[0]}`);
+  }
+  const [responseNonce, next] = readVector(message, 1);
+  const [ciphertext] = readVector(message, next);
+
+  const secret = await pending.context.export(encoder.encode('odoh response'), AEAD_KEY_LENGTH);
+  const prk = await hkdfExtract(concatBytes(pending.queryPlaintext, writeVector(responseNonce)), secret);
+  const key = await hkdfExpand(prk, encoder.encode('odoh key'), AEAD_KEY_LENGTH);
+  const nonce = await hkdfExpand(prk, encoder.encode('odoh nonce'), AEAD_NONCE_LENGTH);
+  const aad = concatBytes(new Uint8Array([MESSAGE_TYPE_RESPONSE]), writeVector(responseNonce));
+
+  let plaintext: Uint8Array;
+  try {
+    const aeadKey = await crypto.subtle.importKey('raw', key as BufferSource, { name: 'AES-GCM' }, false, ['decrypt']);
+    plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce as BufferSource, additionalData: aad as BufferSource }, aeadKey, ciphertext as BufferSource));
+  } catch {
+    throw new ObliviousDohError('ODoH response failed authentication');
+  }
+
+  const [dnsMessage] = readVector(plaintext, 0);
+  return dnsMessage;
+}
+
+// Configs are fetched once per target; a rejected fetch is dropped so the next query retries
+const configCache = new Map<string, Promise<ObliviousDohConfig>>();
+
+// The config fetch is shared by every query waiting on it, so it has a timeout of its own rather than any query's
+const CONFIG_FETCH_TIMEOUT_MS = 10000;
+
+const resolveUrl = (url: string): URL => new URL(url, globalThis.location?.href);
+
+const defaultConfigUrl = (targetUrl: string): string => `${resolveUrl(targetUrl).origin}/.well-known/odohconfigs`;
+
+// Wait for a promise unless the signal aborts first, in which case reject with its reason; the promise runs on
+const raceSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+};
+
+/**
+ * Fetch and cache the target's preferred supported config
+ * @param configUrl the URL serving ObliviousDoHConfigs
+ * @param signal stops this caller waiting; the fetch itself carries on for the others
+ * @returns The config to encrypt queries with
+ */
+export function fetchObliviousDohConfig(configUrl: string, signal?: AbortSignal): Promise<ObliviousDohConfig> {
+  const cached = configCache.get(configUrl);
+  if (cached) {
+    return raceSignal(cached, signal);
+  }
+
+  const pending = (async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), CONFIG_FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetchOrThrow(configUrl, { signal: controller.signal });
+      if (!response.ok) {
+        throw new DohHttpError(response.status, response.statusText, configUrl, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      const [config] = await parseObliviousDohConfigs(new Uint8Array(await response.arrayBuffer()));
+      if (!config) {
+        throw new ObliviousDohError(`No supported ODoH config published at ${configUrl}`);
+      }
+      return config;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new DohTimeoutError(configUrl, CONFIG_FETCH_TIMEOUT_MS);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  })();
+
+  configCache.set(configUrl, pending);
+  pending.catch(() => configCache.delete(configUrl));
+  return raceSignal(pending, signal);
+}
+
+/**
+ * Send a DNS message through an oblivious proxy
+ * @param packet the DNS query message
+ * @param options the proxy and target to use
+ * @param timeout the number of milliseconds to wait for a response before aborting the request
+ * @param signal cancels the request; it then rejects with the signal's reason rather than a DohError
+ * @returns the decrypted response
+ */
+export async function sendOdohMsg(packet: DnsQuery, options: ObliviousDohOptions, timeout: number = 5000, signal?: AbortSignal): Promise<DnsResponse> {
+  signal?.throwIfAborted();
+  const configUrl = options.configUrl ?? defaultConfigUrl(options.targetUrl);
+  const target = resolveUrl(options.targetUrl);
+  const requestUrl = resolveUrl(options.proxyUrl);
+  requestUrl.searchParams.set('targethost', target.host);
+  requestUrl.searchParams.set('targetpath', target.pathname);
+
+  // Set up timeout with AbortController
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    // A target that has rotated its key answers 401; refetch the config once and retry
+    for (let attempt = 0; ; attempt++) {
+      const config = await fetchObliviousDohConfig(configUrl, controller.signal);
+      const { message, pending } = await encryptObliviousQuery(config, encodeQuery(packet));
+
+      const response = await fetchOrThrow(requestUrl.toString(), {
+        method: 'POST',
+        headers: { 'Accept': ODOH_CONTENT_TYPE, 'Content-Type': ODOH_CONTENT_TYPE },
+        body: message.buffer as ArrayBuffer,
+        signal: controller.signal
+      });
+
+      if (response.status === 401 && attempt === 0) {
+        configCache.delete(configUrl);
+        continue;
+      }
+      if (!response.ok) {
+        throw new DohHttpError(response.status, response.statusText, options.proxyUrl, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      if (!response.headers.get('content-type')?.includes(ODOH_CONTENT_TYPE)) {
+        throw new DohParseError(`Unexpected content type: ${response.headers.get('content-type')}`);
+      }
+
+      const dnsMessage = await decryptObliviousResponse(pending, new Uint8Array(await response.arrayBuffer()));
+      clearTimeout(timeoutId);
+      return attachRecordData(decodeWireResponse(dnsMessage));
+    }
+  } catch (error) {
+    // Clean up timeout if we have an error
+    clearTimeout(timeoutId);
+
+    // Cancelled by the caller: not the server's fault, so not a DohError
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    // If it's an AbortError due to our timeout, throw a more descriptive error
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new DohTimeoutError(`${options.targetUrl} via ${options.proxyUrl}`, timeout);
+    }
+
+    // Re-throw other errors
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Parking nameserver database
+ * The nameservers of parking services, domain marketplaces and registrars' holding pages, and who runs them.
+ * A nameserver matches an entry's zone when it is the zone or a name under it, so "ns1.bodis.com" is Bodis.
+ * The zones come from the MISP parking-domain-ns warning list; `npm run update-parking-providers` imports new
+ * ones into parkingProviders.json, where the names and categories are curated.
+ */
+
+import data from './parkingProviders.json';
+
+/**
+ * What a parking nameserver is for
+ * - parking: ad-funded parking pages
+ * - marketplace: domains listed for sale
+ * - expired: holding pages for expired, suspended or unverified domains
+ * - registrar: a registrar's default nameservers, which also serve domains in use
+ * - hosting: a host's nameservers, which mostly serve sites in use
+ */
+export type ParkingCategory = 'parking' | 'marketplace' | 'expired' | 'registrar' | 'hosting';
+
+export interface ParkingProvider {
+  /** Who runs it, e.g. "Sedo" */
+  name: string;
+  category: ParkingCategory;
+  /** Nameserver zones, each matching itself and every name under it, e.g. "sedoparking.com" */
+  zones: string[];
+}
+
+export const PARKING_CATEGORY_LABELS: Record<ParkingCategory, string> = {
+  parking: 'parking page',
+  marketplace: 'listed for sale',
+  expired: 'expired or on hold',
+  registrar: 'registrar default',
+  hosting: 'hosting default'
+};
+
+/**
+ * Lowercase, without the trailing dot of a fully-qualified name
+ */
+export const normalizeHostname = (name: string): string => name.trim().toLowerCase().replace(/\.+$/, '');
+
+/**
+ * Parking providers by nameserver zone
+ */
+export class ParkingProviderDatabase {
+  private byZone = new Map<string, ParkingProvider>();
+
+  constructor(providers: ParkingProvider[]) {
+    for (const provider of providers) {
+      for (const zone of provider.zones) {
+        this.byZone.set(normalizeHostname(zone), provider);
+      }
+    }
+  }
+
+  /**
+   * Find who runs a nameserver
+   * @param nameserver the nameserver's hostname, with or without the trailing dot
+   * @returns The provider of the closest zone enclosing it, or undefined
+   */
+  match(nameserver: string): ParkingProvider | undefined {
+    const labels = normalizeHostname(nameserver).split('.');
+    // Closest zone first, e.g. ns1.sedoparking.com, then sedoparking.com; a TLD alone is never a zone
+    for (let i = 0; i < labels.length - 1; i++) {
+      const provider = this.byZone.get(labels.slice(i).join('.'));
+      if (provider) return provider;
+    }
+    return undefined;
+  }
+}
+
+/** The curated providers, as imported from the MISP list */
+export const PARKING_PROVIDERS = data.providers as ParkingProvider[];
+
+export const parkingProviders = new ParkingProviderDatabase(PARKING_PROVIDERS);
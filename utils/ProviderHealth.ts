@@ -0,0 +1,318 @@
+/**
+ * Provider health tracking with a circuit breaker
+ * Records the latency and failures of each provider's recent queries, ranks providers by the
+ * expected time to an answer, and stops sending queries to one that keeps failing until it has
+ * had time to recover (closed -> open -> half-open -> closed).
+ */
+
+import { DohError, DohTimeoutError } from './DohResolver';
+import type { DnsQuery, DnsResponse } from './DohResolver';
+import type { DnsTransport } from './DnsTransport';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealthOptions {
+  /** How many recent outcomes the error rate is computed over */
+  windowSize: number;
+  /** Outcomes needed in the window before the error rate can open the circuit */
+  minSamples: number;
+  /** Error rate over the window that opens the circuit */
+  failureRateThreshold: number;
+  /** Failures in a row that open the circuit regardless of the window */
+  consecutiveFailureThreshold: number;
+  /** How long an open circuit rejects queries before letting a trial through */
+  openDurationMs: number;
+  /** Weight of the newest sample in the latency moving average */
+  latencySmoothing: number;
+  /** Latency assumed for providers with no successful queries yet */
+  defaultLatencyMs: number;
+  /** What a failed query is assumed to cost when ranking, and a timed out one */
+  failureCostMs: number;
+  timeoutCostMs: number;
+}
+
+export const DEFAULT_PROVIDER_HEALTH_OPTIONS: ProviderHealthOptions = {
+  windowSize: 20,
+  minSamples: 5,
+  failureRateThreshold: 0.5,
+  consecutiveFailureThreshold: 3,
+  openDurationMs: 30000,
+  latencySmoothing: 0.3,
+  defaultLatencyMs: 250,
+  failureCostMs: 1000,
+  timeoutCostMs: 5000
+};
+
+/**
+ * A provider's health, for display
+ */
+export interface ProviderHealthSnapshot {
+  id: string;
+  state: CircuitState;
+  /** Moving average of successful queries, undefined until one succeeds */
+  latencyMs?: number;
+  /** Share of failed queries in the recent window */
+  errorRate: number;
+  requests: number;
+  failures: number;
+  timeouts: number;
+  /** When an open circuit lets a trial query through, in ms since the epoch */
+  retryAt?: number;
+}
+
+type Outcome = 'ok' | 'error' | 'timeout';
+
+interface ProviderStats {
+  outcomes: Outcome[];
+  latencyMs?: number;
+  requests: number;
+  failures: number;
+  timeouts: number;
+  consecutiveFailures: number;
+  state: CircuitState;
+  openedAt: number;
+  /** The half-open circuit's single trial query under way, if any */
+  trial?: object;
+}
+
+/**
+ * Tracks the health of providers, keyed by any stable id (e.g. the provider's base URL)
+ */
+export class ProviderHealthTracker {
+  private options: ProviderHealthOptions;
+  private stats = new Map<string, ProviderStats>();
+  private onChange?: () => void;
+
+  /**
+   * @param options thresholds, overriding DEFAULT_PROVIDER_HEALTH_OPTIONS
+   * @param onChange called after every recorded outcome or circuit state change
+   */
+  constructor(options: Partial<ProviderHealthOptions> = {}, onChange?: () => void) {
+    this.options = { ...DEFAULT_PROVIDER_HEALTH_OPTIONS, ...options };
+    this.onChange = onChange;
+  }
+
+  /**
+   * Record a query that got a response
+   * @param id the provider
+   * @param latencyMs how long the response took
+   */
+  recordSuccess(id: string, latencyMs: number): void {
+    const stats = this.getStats(id);
+    const alpha = this.options.latencySmoothing;
+    stats.latencyMs = stats.latencyMs === undefined ? latencyMs : alpha * latencyMs + (1 - alpha) * stats.latencyMs;
+    stats.consecutiveFailures = 0;
+    stats.trial = undefined;
+    this.addOutcome(stats, 'ok');
+    // A successful trial closes the circuit with a clean slate
+    if (stats.state !== 'closed') {
+      stats.state = 'closed';
+      stats.outcomes = ['ok'];
+    }
+    this.onChange?.();
+  }
+
+  /**
+   * Record a query that failed
+   * @param id the provider
+   * @param error what it failed with; timeouts are counted separately
+   */
+  recordFailure(id: string, error: unknown): void {
+    const stats = this.getStats(id);
+    const isTimeout = error instanceof DohTimeoutError;
+    stats.failures++;
+    if (isTimeout) {
+      stats.timeouts++;
+    }
+    stats.consecutiveFailures++;
+    stats.trial = undefined;
+    this.addOutcome(stats, isTimeout ? 'timeout' : 'error');
+
+    const errorRate = this.errorRate(stats);
+    const tripped = stats.state === 'half-open' ||
+      stats.consecutiveFailures >= this.options.consecutiveFailureThreshold ||
+      (stats.outcomes.length >= this.options.minSamples && errorRate >= this.options.failureRateThreshold);
+    if (tripped) {
+      stats.state = 'open';
+      stats.openedAt = Date.now();
+    }
+    this.onChange?.();
+  }
+
+  /**
+   * Whether queries may be sent to a provider
+   * An open circuit is due a single trial query once it has been open long enough; while that trial is
+   * under way (half-open) it takes no other queries. Only `acquire` starts the trial.
+   */
+  canRequest(id: string): boolean {
+    const stats = this.stats.get(id);
+    if (!stats || stats.state === 'closed') {
+      return true;
+    }
+    if (stats.state === 'open' && Date.now() - stats.openedAt < this.options.openDurationMs) {
+      return false;
+    }
+    return stats.trial === undefined;
+  }
+
+  /**
+   * Claim the right to query a provider, as the trial query if its circuit is due one
+   * The trial's outcome then closes or reopens the circuit.
+   * @param id the provider
+   * @returns A function to call once the query is over, or undefined if the provider takes no queries now
+   */
+  acquire(id: string): (() => void) | undefined {
+    if (!this.canRequest(id)) {
+      return undefined;
+    }
+    const stats = this.stats.get(id);
+    if (!stats || stats.state === 'closed') {
+      return () => {};
+    }
+    const trial = {};
+    stats.state = 'half-open';
+    stats.trial = trial;
+    this.onChange?.();
+    // A trial that ended without an outcome (cancelled, or answered from a cache) frees the slot for another
+    return () => {
+      if (stats.trial === trial) {
+        stats.trial = undefined;
+        this.onChange?.();
+      }
+    };
+  }
+
+  /**
+   * The expected time to get an answer from a provider, counting the cost of its recent failures
+   * @returns Milliseconds; lower is better
+   */
+  getScore(id: string): number {
+    const stats = this.stats.get(id);
+    const latency = stats?.latencyMs ?? this.options.defaultLatencyMs;
+    if (!stats || stats.outcomes.length === 0) {
+      return latency;
+    }
+    const share = (outcome: Outcome) => stats.outcomes.filter(o => o === outcome).length / stats.outcomes.length;
+    return share('ok') * latency + share('error') * this.options.failureCostMs + share('timeout') * this.options.timeoutCostMs;
+  }
+
+  /**
+   * Order providers best first: those accepting queries by score, then those with an open circuit
+   * Ties keep the given order, so it doubles as a preference when nothing is known yet.
+   * @param ids the providers to rank, in order of preference
+   */
+  rank(ids: string[]): string[] {
+    const available = ids.filter(id => this.canRequest(id));
+    const open = ids.filter(id => !available.includes(id));
+    return [...available.sort((a, b) => this.getScore(a) - this.getScore(b)), ...open];
+  }
+
+  /**
+   * Pick one provider at random, weighted towards the fast and reliable ones, to spread load
+   * @param ids the candidates
+   * @param random a source of numbers in [0, 1)
+   * @returns A provider accepting queries, or the first candidate if none are
+   */
+  choose(ids: string[], random: () => number = Math.random): string | undefined {
+    const available = ids.filter(id => this.canRequest(id));
+    if (available.length === 0) {
+      return ids[0];
+    }
+    const weights = available.map(id => 1 / Math.max(1, this.getScore(id)));
+    let target = random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < available.length; i++) {
+      target -= weights[i];
+      if (target < 0) {
+        return available[i];
+      }
+    }
+    return available[available.length - 1];
+  }
+
+  /**
+   * Get a provider's current health
+   */
+  getSnapshot(id: string): ProviderHealthSnapshot {
+    const stats = this.stats.get(id);
+    if (!stats) {
+      return { id, state: 'closed', errorRate: 0, requests: 0, failures: 0, timeouts: 0 };
+    }
+    return {
+      id,
+      state: stats.state,
+      latencyMs: stats.latencyMs === undefined ? undefined : Math.round(stats.latencyMs),
+      errorRate: this.errorRate(stats),
+      requests: stats.requests,
+      failures: stats.failures,
+      timeouts: stats.timeouts,
+      retryAt: stats.state === 'open' ? stats.openedAt + this.options.openDurationMs : undefined
+    };
+  }
+
+  /**
+   * Forget all recorded outcomes and close every circuit
+   */
+  reset(): void {
+    this.stats.clear();
+    this.onChange?.();
+  }
+
+  private getStats(id: string): ProviderStats {
+    let stats = this.stats.get(id);
+    if (!stats) {
+      stats = { outcomes: [], requests: 0, failures: 0, timeouts: 0, consecutiveFailures: 0, state: 'closed', openedAt: 0 };
+      this.stats.set(id, stats);
+    }
+    return stats;
+  }
+
+  private addOutcome(stats: ProviderStats, outcome: Outcome): void {
+    stats.requests++;
+    stats.outcomes.push(outcome);
+    if (stats.outcomes.length > this.options.windowSize) {
+      stats.outcomes.shift();
+    }
+  }
+
+  private errorRate(stats: ProviderStats): number {
+    return stats.outcomes.length === 0 ? 0 : stats.outcomes.filter(o => o !== 'ok').length / stats.outcomes.length;
+  }
+}
+
+/**
+ * Sends queries through another transport and records each outcome with a health tracker
+ * Wraps the transport rather than the resolver, so cached answers don't count as fast responses.
+ */
+export class HealthTrackingTransport implements DnsTransport {
+  readonly id: string;
+  private inner: DnsTransport;
+  private tracker: ProviderHealthTracker;
+  private providerId: string;
+
+  /**
+   * @param inner the transport that actually sends the queries
+   * @param tracker where to record outcomes
+   * @param providerId the id the provider is tracked under
+   */
+  constructor(inner: DnsTransport, tracker: ProviderHealthTracker, providerId: string) {
+    this.id = inner.id;
+    this.inner = inner;
+    this.tracker = tracker;
+    this.providerId = providerId;
+  }
+
+  async send(packet: DnsQuery, timeout: number, signal?: AbortSignal): Promise<DnsResponse> {
+    const started = Date.now();
+    try {
+      const response = await this.inner.send(packet, timeout, signal);
+      this.tracker.recordSuccess(this.providerId, Date.now() - started);
+      return response;
+    } catch (error) {
+      // Only failures of the provider count against it, not e.g. a transport unavailable in this runtime
+      if (error instanceof DohError) {
+        this.tracker.recordFailure(this.providerId, error);
+      }
+      throw error;
+    }
+  }
+}
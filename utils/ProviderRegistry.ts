@@ -0,0 +1,304 @@
+/**
+ * DoH provider registry
+ * The resolvers the checker queries: the built-in public ones plus any the user adds (NextDNS, AdGuard,
+ * self-hosted...), persisted in localStorage. New providers are probed for what they support before use.
+ */
+
+import { DohNetworkError, DohResolver } from './DohResolver';
+import type { DnsResponse } from './DohResolver';
+import { ObliviousDohTransport } from './DnsTransport';
+import type { DnsTransport } from './DnsTransport';
+import type { ObliviousDohOptions } from './ObliviousDoh';
+
+export const PROVIDER_REGISTRY_STORAGE_KEY = 'domain-checker:providers';
+const PROVIDER_REGISTRY_VERSION = 1;
+
+// A signed zone that always resolves, and one whose DNSSEC is deliberately broken
+const PROBE_NAME = 'example.com';
+const PROBE_BROKEN_DNSSEC_NAME = 'dnssec-failed.org';
+
+/**
+ * How a provider takes part in checks
+ * - primary: answers the consensus queries
+ * - fallback: breaks ties, takes failovers and wildcard probes
+ * - disabled: never queried
+ */
+export type ProviderRole = 'primary' | 'fallback' | 'disabled';
+
+/**
+ * What a probe found a provider supports
+ */
+export interface ProviderCapabilities {
+  /** Answers the JSON API (`?name=&type=`, application/dns-json) */
+  json: boolean;
+  /** Answers RFC 8484 wire-format queries */
+  wire: boolean;
+  /** Its responses can be read from this page (a missing CORS header looks like a network error) */
+  cors: boolean;
+  /** Sets the AD flag for a signed zone, i.e. validates DNSSEC */
+  dnssecAd: boolean;
+  /** Explains failures with Extended DNS Errors (RFC 8914) */
+  ede: boolean;
+  /** When the probe ran, in ms since the epoch */
+  probedAt: number;
+  /** Why the provider couldn't be used, if it can't */
+  error?: string;
+}
+
+export interface ProviderEntry {
+  /** Stable key, e.g. "cloudflare"; consensus policies name primaries by it */
+  id: string;
+  name: string;
+  /** The DoH endpoint */
+  url: string;
+  /** Query with the JSON API or wire format */
+  format: 'json' | 'wire';
+  role: ProviderRole;
+  builtIn: boolean;
+  /** The Oblivious DoH target the provider offers, and the proxy to relay queries to it through */
+  odoh?: ObliviousDohOptions;
+  /** Query through `odoh` instead of calling `url`; off unless the user switches it on */
+  oblivious?: boolean;
+  capabilities?: ProviderCapabilities;
+}
+
+export const BUILT_IN_PROVIDERS: ProviderEntry[] = [
+  {
+    id: 'cloudflare',
+    name: 'Cloudflare',
+    url: 'https://cloudflare-dns.com/dns-query',
+    format: 'json',
+    role: 'primary',
+    builtIn: true,
+    // Relayed through '/api/odoh-proxy', served by this app, so the resolver never sees our IP; a static deploy has no proxy
+    odoh: { proxyUrl: '/api/odoh-proxy', targetUrl: 'https://odoh.cloudflare-dns.com/dns-query' }
+  },
+  {
+    id: 'google',
+    name: 'Google',
+    url: 'https://dns.google/resolve',
+    format: 'json',
+    role: 'primary',
+    builtIn: true
+  },
+  {
+    id: 'quad9',
+    name: 'Quad9',
+    url: 'https://dns.quad9.net:5053/dns-query',
+    format: 'json',
+    role: 'fallback',
+    builtIn: true
+  }
+];
+
+/**
+ * The request headers that select a provider's query format
+ */
+export function getProviderHeaders(entry: Pick<ProviderEntry, 'format'>): Record<string, string> {
+  return { 'Accept': entry.format === 'json' ? 'application/dns-json' : 'application/dns-message' };
+}
+
+/**
+ * How queries reach a provider: through its Oblivious DoH target if the user switched that on
+ * @returns The transport, or undefined for plain HTTPS to the provider's URL
+ */
+export function getProviderTransport(entry: Pick<ProviderEntry, 'oblivious' | 'odoh'>): DnsTransport | undefined {
+  return entry.oblivious && entry.odoh ? new ObliviousDohTransport(entry.odoh) : undefined;
+}
+
+const toError = (error: unknown): Error => error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Find out what a DoH endpoint supports by sending it a few queries
+ * @param url the DoH endpoint
+ * @param timeout the timeout of each query, in milliseconds
+ * @returns The capabilities found; `error` is set if neither format works
+ */
+export async function probeProvider(url: string, timeout: number = 5000): Promise<ProviderCapabilities> {
+  const resolver = new DohResolver(url, null);
+  const query = (name: string, format: 'json' | 'wire'): Promise<DnsResponse | Error> =>
+    resolver.query(name, 'A', 'GET', getProviderHeaders({ format }), timeout, { dnssecOk: true }).catch(toError);
+
+  const [json, wire] = await Promise.all([query(PROBE_NAME, 'json'), query(PROBE_NAME, 'wire')]);
+  const answered = [json, wire].filter((response): response is DnsResponse => !(response instanceof Error));
+
+  // Only wire-format responses carry the OPT record that EDE codes travel in
+  const broken = wire instanceof Error ? undefined : await query(PROBE_BROKEN_DNSSEC_NAME, 'wire');
+
+  return {
+    json: !(json instanceof Error),
+    wire: !(wire instanceof Error),
+    // Any HTTP response, even an error status, means the browser let us read it
+    cors: !(json instanceof DohNetworkError && wire instanceof DohNetworkError),
+    dnssecAd: answered.some(response => response.AD),
+    ede: broken !== undefined && !(broken instanceof Error) && (broken.EDNS?.extendedErrors?.length ?? 0) > 0,
+    probedAt: Date.now(),
+    error: answered.length === 0 ? (json instanceof Error ? json.message : 'No usable response') : undefined
+  };
+}
+
+interface StoredRegistry {
+  version: number;
+  providers: ProviderEntry[];
+}
+
+/**
+ * The providers in use, persisted to storage when available (not during server rendering)
+ */
+export class ProviderRegistry {
+  private storage: Storage | null;
+  private entries: ProviderEntry[];
+  private listeners = new Set<() => void>();
+
+  /**
+   * @param storage where to persist the registry, defaults to localStorage in browsers
+   */
+  constructor(storage: Storage | null = globalThis.localStorage ?? null) {
+    this.storage = storage;
+    this.entries = this.load();
+  }
+
+  /**
+   * Get all providers, including disabled ones, in registry order
+   */
+  list(): ProviderEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Get a provider by id
+   */
+  get(id: string): ProviderEntry | undefined {
+    const entry = this.entries.find(e => e.id === id);
+    return entry && { ...entry };
+  }
+
+  /**
+   * Add a custom provider
+   * @param entry the provider; its id is derived from the name if not given
+   * @returns The added provider
+   * @throws {Error} If the URL isn't an https URL or is already registered
+   */
+  add(entry: Omit<ProviderEntry, 'id' | 'builtIn'> & { id?: string }): ProviderEntry {
+    let url: URL;
+    try {
+      url = new URL(entry.url);
+    } catch {
+      throw new Error(`Invalid provider URL: ${entry.url}`);
+    }
+    if (url.protocol !== 'https:') {
+      throw new Error('DoH providers must use https');
+    }
+    if (this.entries.some(e => e.url === url.toString())) {
+      throw new Error(`${url} is already registered`);
+    }
+
+    const baseId = entry.id ?? (entry.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || url.hostname);
+    let id = baseId;
+    for (let n = 2; this.entries.some(e => e.id === id); n++) {
+      id = `${baseId}-${n}`;
+    }
+
+    const added: ProviderEntry = { ...entry, id, url: url.toString(), builtIn: false };
+    this.entries.push(added);
+    this.save();
+    return { ...added };
+  }
+
+  /**
+   * Change a provider's role, format, capabilities or whether it's queried through Oblivious DoH
+   * @throws {Error} If the provider is unknown, disabling it would leave none enabled, or it offers no Oblivious DoH
+   */
+  update(id: string, changes: Partial<Pick<ProviderEntry, 'name' | 'role' | 'format' | 'capabilities' | 'oblivious'>>): void {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) {
+      throw new Error(`Unknown provider ${id}`);
+    }
+    if (changes.role === 'disabled') {
+      this.assertOthersEnabled(id);
+    }
+    if (changes.oblivious && !entry.odoh) {
+      throw new Error(`${entry.name} offers no Oblivious DoH target`);
+    }
+    Object.assign(entry, changes);
+    this.save();
+  }
+
+  /**
+   * Remove a custom provider; built-in ones can only be disabled
+   */
+  remove(id: string): void {
+    const entry = this.entries.find(e => e.id === id);
+    if (entry?.builtIn) {
+      throw new Error(`${entry.name} is built in; disable it instead`);
+    }
+    this.assertOthersEnabled(id);
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.save();
+  }
+
+  /**
+   * Go back to the built-in providers only
+   */
+  reset(): void {
+    this.entries = BUILT_IN_PROVIDERS.map(entry => ({ ...entry }));
+    this.save();
+  }
+
+  /**
+   * Take over another registry's list, e.g. the page's in a worker, which has no localStorage of its own
+   * @param entries the providers, as returned by `list()`
+   */
+  replace(entries: ProviderEntry[]): void {
+    this.entries = this.merge(entries);
+    this.save();
+  }
+
+  /**
+   * Be notified of every change
+   * @returns A function that stops the notifications
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private assertOthersEnabled(id: string): void {
+    if (!this.entries.some(e => e.id !== id && e.role !== 'disabled')) {
+      throw new Error('At least one provider must stay enabled');
+    }
+  }
+
+  private load(): ProviderEntry[] {
+    let stored: ProviderEntry[] = [];
+    try {
+      const parsed = JSON.parse(this.storage?.getItem(PROVIDER_REGISTRY_STORAGE_KEY) ?? 'null') as StoredRegistry | null;
+      if (parsed?.version === PROVIDER_REGISTRY_VERSION && Array.isArray(parsed.providers)) {
+        stored = parsed.providers;
+      }
+    } catch {
+      // Unreadable storage falls back to the built-ins
+    }
+    return this.merge(stored);
+  }
+
+  private merge(stored: ProviderEntry[]): ProviderEntry[] {
+    // Built-ins always come from code, keeping only what the user chose for them
+    const builtIns = BUILT_IN_PROVIDERS.map(entry => {
+      const saved = stored.find(e => e.id === entry.id);
+      return saved ? { ...entry, role: saved.role, capabilities: saved.capabilities, oblivious: saved.oblivious === true } : { ...entry };
+    });
+    return [...builtIns, ...stored.filter(e => !e.builtIn && !builtIns.some(b => b.id === e.id))];
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(PROVIDER_REGISTRY_STORAGE_KEY, JSON.stringify({ version: PROVIDER_REGISTRY_VERSION, providers: this.entries }));
+    } catch {
+      // Storage may be full or blocked; the registry still works for this session
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const sharedProviderRegistry = new ProviderRegistry();
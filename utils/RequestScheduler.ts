@@ -0,0 +1,155 @@
+/**
+ * Scheduling for large sweeps
+ * A concurrency limiter caps how many tasks run at once, queueing the rest in order, and a token bucket
+ * spaces out requests to one provider so a sweep of hundreds of domains stays under its rate limit.
+ */
+
+/**
+ * Runs at most `limit` tasks at a time, starting queued ones in order as others finish
+ */
+export class ConcurrencyLimiter {
+  readonly limit: number;
+  private running = 0;
+  private queue: Array<() => void> = [];
+  private onChange?: () => void;
+
+  /**
+   * @param limit the maximum number of tasks running at once
+   * @param onChange called whenever a task is queued, starts or finishes
+   */
+  constructor(limit: number, onChange?: () => void) {
+    this.limit = Math.max(1, limit);
+    this.onChange = onChange;
+  }
+
+  /** Tasks currently running */
+  get active(): number {
+    return this.running;
+  }
+
+  /** Tasks waiting for a free slot */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run a task once a slot is free
+   * @param task the work to do
+   * @returns The task's result
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running < this.limit) {
+      this.running++;
+    } else {
+      // The slot is handed over by the finishing task, so `running` stays the same
+      const admitted = new Promise<void>(resolve => this.queue.push(resolve));
+      this.onChange?.();
+      await admitted;
+    }
+    this.onChange?.();
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+      this.onChange?.();
+    }
+  }
+}
+
+export interface TokenBucketOptions {
+  /** Sustained rate */
+  requestsPerSecond: number;
+  /** Requests allowed back to back before the rate applies */
+  burst: number;
+}
+
+/**
+ * A token bucket: each request takes a token, tokens refill at a steady rate up to the burst size
+ */
+export class TokenBucket {
+  private options: TokenBucketOptions;
+  private tokens: number;
+  private updatedAt = Date.now();
+  private waiters: Array<{ grant: () => void; cancel: () => void }> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private onChange?: () => void;
+
+  /**
+   * @param options the rate and burst size
+   * @param onChange called whenever a request starts or stops waiting for a token
+   */
+  constructor(options: TokenBucketOptions, onChange?: () => void) {
+    this.options = { requestsPerSecond: Math.max(options.requestsPerSecond, 0.001), burst: Math.max(1, options.burst) };
+    this.tokens = this.options.burst;
+    this.onChange = onChange;
+  }
+
+  /** Requests waiting for a token */
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Take a token, waiting for one to refill if the bucket is empty
+   * Requests are served in the order they asked.
+   * @param signal gives up the wait, which then rejects with the signal's reason
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    this.refill();
+    if (this.waiters.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    const granted = new Promise<void>((resolve, reject) => {
+      const cancel = () => {
+        this.waiters = this.waiters.filter(waiter => waiter.cancel !== cancel);
+        this.onChange?.();
+        reject(signal?.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      };
+      this.waiters.push({ grant, cancel });
+      signal?.addEventListener('abort', cancel, { once: true });
+    });
+    this.schedule();
+    this.onChange?.();
+    return granted;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - this.updatedAt) / 1000 * this.options.requestsPerSecond);
+    this.updatedAt = now;
+  }
+
+  private schedule(): void {
+    if (this.timer !== undefined) {
+      return;
+    }
+    const delayMs = Math.ceil((1 - this.tokens) / this.options.requestsPerSecond * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.refill();
+      while (this.waiters.length > 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        this.waiters.shift()?.grant();
+      }
+      if (this.waiters.length > 0) {
+        this.schedule();
+      }
+      this.onChange?.();
+    }, Math.max(0, delayMs));
+  }
+}
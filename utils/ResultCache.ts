@@ -0,0 +1,238 @@
+/**
+ * Persistent domain result cache
+ * Keeps the verdict of every checked domain in IndexedDB, one entry per fully-qualified domain, so results
+ * survive reloads and a search that adds a TLD still finds the others. Entries past their expiry are served
+ * as stale while the caller re-verifies them. Changes are broadcast to other tabs of the app.
+ */
+
+export const RESULT_CACHE_DB_NAME = 'domain-checker';
+const RESULT_CACHE_STORE = 'results';
+const RESULT_CACHE_DB_VERSION = 1;
+export const RESULT_CACHE_CHANNEL = 'domain-checker:results';
+
+/**
+ * A cached result, as stored
+ */
+export interface ResultCacheEntry<T> {
+  /** The fully-qualified domain, e.g. "example.com" */
+  domain: string;
+  /** What else the result depends on (policy, providers...); an entry of another variant is a miss */
+  variant: string;
+  result: T;
+  /** When the domain was checked, in ms since the epoch */
+  checkedAt: number;
+  /** When the result goes stale, in ms since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * A cache lookup: the result, and whether it should be re-verified
+ */
+export interface ResultCacheHit<T> {
+  result: T;
+  checkedAt: number;
+  stale: boolean;
+}
+
+export interface ResultCacheOptions {
+  /** How long past expiry a stale entry may still be served, in ms */
+  maxStale?: number;
+  /** Maximum number of entries before the least recently checked are evicted */
+  maxEntries?: number;
+  /** Where to persist entries; defaults to IndexedDB when the environment has it */
+  indexedDB?: IDBFactory | null;
+  /** Name of the BroadcastChannel that keeps tabs in sync; null to stay private to this tab */
+  channelName?: string | null;
+}
+
+type ResultCacheMessage<T> =
+  | { type: 'set'; entry: ResultCacheEntry<T> }
+  | { type: 'delete'; domain: string }
+  | { type: 'clear' };
+
+const DEFAULT_MAX_STALE = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 2000;
+
+const requestToPromise = <R>(request: IDBRequest<R>): Promise<R> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Domain results cached by domain, mirrored in memory and persisted to IndexedDB when available.
+ * Without IndexedDB (server rendering, private modes that block it) the cache lives for the session only.
+ */
+export class ResultCache<T> {
+  private entries = new Map<string, ResultCacheEntry<T>>();
+  private listeners = new Set<(domain: string | null) => void>();
+  private factory: IDBFactory | null;
+  private channelName: string | null;
+  private channel: BroadcastChannel | null = null;
+  private maxStale: number;
+  private maxEntries: number;
+  private db: Promise<IDBDatabase | null> | null = null;
+  private loaded: Promise<void> | null = null;
+
+  /**
+   * @param options staleness and size limits, and where to persist and broadcast
+   */
+  constructor(options: ResultCacheOptions = {}) {
+    this.maxStale = options.maxStale ?? DEFAULT_MAX_STALE;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.factory = options.indexedDB !== undefined ? options.indexedDB : globalThis.indexedDB ?? null;
+    this.channelName = options.channelName !== undefined ? options.channelName : RESULT_CACHE_CHANNEL;
+  }
+
+  /**
+   * Look up a domain's result
+   * @param domain the fully-qualified domain
+   * @param variant must match the variant the result was stored with
+   * @returns The result, stale if past its expiry; undefined if missing, of another variant or too old to serve
+   */
+  async get(domain: string, variant: string): Promise<ResultCacheHit<T> | undefined> {
+    await this.load();
+    const now = Date.now();
+    const entry = this.entries.get(domain);
+    if (!entry || entry.variant !== variant || now > entry.expiresAt + this.maxStale) {
+      return undefined;
+    }
+    return { result: entry.result, checkedAt: entry.checkedAt, stale: now > entry.expiresAt };
+  }
+
+  /**
+   * Store a domain's result
+   * @param domain the fully-qualified domain
+   * @param variant what else the result depends on
+   * @param result the result; it must survive structured cloning
+   * @param ttl how long the result stays fresh, in ms
+   */
+  async set(domain: string, variant: string, result: T, ttl: number): Promise<void> {
+    await this.load();
+    const checkedAt = Date.now();
+    const entry: ResultCacheEntry<T> = { domain, variant, result, checkedAt, expiresAt: checkedAt + ttl };
+    this.apply({ type: 'set', entry });
+    this.channel?.postMessage({ type: 'set', entry });
+    await this.write(store => store.put(entry));
+
+    // Evict the least recently checked domains beyond the cap
+    if (this.entries.size > this.maxEntries) {
+      const oldest = [...this.entries.values()]
+        .sort((a, b) => a.checkedAt - b.checkedAt)
+        .slice(0, this.entries.size - this.maxEntries);
+      await Promise.all(oldest.map(evicted => this.delete(evicted.domain)));
+    }
+  }
+
+  /**
+   * Forget a domain's result
+   */
+  async delete(domain: string): Promise<void> {
+    await this.load();
+    this.apply({ type: 'delete', domain });
+    this.channel?.postMessage({ type: 'delete', domain });
+    await this.write(store => store.delete(domain));
+  }
+
+  /**
+   * Forget every result
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.apply({ type: 'clear' });
+    this.channel?.postMessage({ type: 'clear' });
+    await this.write(store => store.clear());
+  }
+
+  /**
+   * Get every entry, most recently checked first
+   */
+  async list(): Promise<ResultCacheEntry<T>[]> {
+    await this.load();
+    return [...this.entries.values()].sort((a, b) => b.checkedAt - a.checkedAt);
+  }
+
+  /**
+   * Be notified of every change, including those made in other tabs
+   * @param listener called with the changed domain, or null when the cache was cleared
+   * @returns A function that stops the notifications
+   */
+  subscribe(listener: (domain: string | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private apply(message: ResultCacheMessage<T>): void {
+    switch (message.type) {
+      case 'set':
+        this.entries.set(message.entry.domain, message.entry);
+        break;
+      case 'delete':
+        this.entries.delete(message.domain);
+        break;
+      case 'clear':
+        this.entries.clear();
+        break;
+    }
+    const domain = message.type === 'set' ? message.entry.domain : message.type === 'delete' ? message.domain : null;
+    this.listeners.forEach(listener => listener(domain));
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      const factory = this.factory;
+      this.db = !factory
+        ? Promise.resolve(null)
+        : new Promise<IDBDatabase | null>(resolve => {
+            const request = factory.open(RESULT_CACHE_DB_NAME, RESULT_CACHE_DB_VERSION);
+            request.onupgradeneeded = () => {
+              request.result.createObjectStore(RESULT_CACHE_STORE, { keyPath: 'domain' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            // Blocked or unavailable storage leaves the cache in memory only
+            request.onerror = () => resolve(null);
+          });
+    }
+    return this.db;
+  }
+
+  // On first use, join the other tabs' channel and read every stored entry, dropping those too old to serve
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      if (this.channelName && typeof BroadcastChannel !== 'undefined') {
+        this.channel = new BroadcastChannel(this.channelName);
+        this.channel.onmessage = (event: MessageEvent<ResultCacheMessage<T>>) => this.apply(event.data);
+      }
+      this.loaded = (async () => {
+        const db = await this.open();
+        if (!db) return;
+        try {
+          const stored = await requestToPromise(
+            db.transaction(RESULT_CACHE_STORE, 'readonly').objectStore(RESULT_CACHE_STORE).getAll() as IDBRequest<ResultCacheEntry<T>[]>
+          );
+          const now = Date.now();
+          for (const entry of stored) {
+            if (now > entry.expiresAt + this.maxStale) {
+              void this.write(store => store.delete(entry.domain));
+            } else if (!this.entries.has(entry.domain)) {
+              this.entries.set(entry.domain, entry);
+            }
+          }
+        } catch (error) {
+          console.warn('[Result Cache] Could not read stored results:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async write(change: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      await requestToPromise(change(db.transaction(RESULT_CACHE_STORE, 'readwrite').objectStore(RESULT_CACHE_STORE)));
+    } catch (error) {
+      // Quota or a closed database: the entry stays cached for this session
+      console.warn('[Result Cache] Could not store results:', error);
+    }
+  }
+}
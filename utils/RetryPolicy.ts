@@ -0,0 +1,211 @@
+/**
+ * Retry policy for DNS queries
+ * Decides whether a failed query is worth another attempt and how long to wait first:
+ * exponential backoff with jitter, or the provider's Retry-After when it sends one (429/503).
+ */
+
+import { DohHttpError, DohNetworkError, DohTimeoutError } from './DohResolver';
+
+/**
+ * The kinds of failure a policy can retry; anything else (malformed responses, 4xx, misconfiguration) fails at once
+ */
+export type RetryErrorClass = 'timeout' | 'network' | 'rateLimited' | 'serverError';
+
+/**
+ * How often and how patiently to retry one class of error
+ */
+export interface RetryRule {
+  /** Attempts per provider, including the first; 1 never retries */
+  maxAttempts: number;
+  /** Backoff before the first retry, doubled for each one after */
+  baseDelayMs: number;
+  /** Upper bound on the backoff */
+  maxDelayMs: number;
+}
+
+export interface RetryPolicy extends RetryRule {
+  /**
+   * How the backoff is randomized: "full" waits between 0 and the backoff, "equal" between half and all of it,
+   * "none" waits exactly the backoff. Jitter keeps parallel checks from retrying in lockstep.
+   */
+  jitter: 'full' | 'equal' | 'none';
+  /** Timeout of each attempt, in milliseconds */
+  attemptTimeoutMs: number;
+  /** Overall time budget for checking one domain, across all its queries, retries and failovers */
+  deadlineMs: number;
+  /** Wait as long as a 429 or 503 response's Retry-After asks, instead of the backoff */
+  respectRetryAfter: boolean;
+  /** A Retry-After longer than this is not waited out; the query fails over instead */
+  maxRetryAfterMs: number;
+  /** Once retries are exhausted, send the query to another provider */
+  failover: boolean;
+  /** Per error class overrides of the rule above; `false` never retries that class */
+  errorClasses: Partial<Record<RetryErrorClass, Partial<RetryRule> | false>>;
+}
+
+/**
+ * A partial policy, merged over the defaults
+ */
+export type RetryPolicyOptions = Partial<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  jitter: 'full',
+  attemptTimeoutMs: 5000,
+  deadlineMs: 20000,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 5000,
+  failover: true,
+  errorClasses: {
+    // Rate limits clear up slower than dropped packets
+    rateLimited: { maxAttempts: 3, baseDelayMs: 1000 }
+  }
+};
+
+/**
+ * The outcome of a failed attempt: retry after a delay, or give up
+ */
+export type RetryDecision =
+  | { retry: true; delayMs: number; source: 'backoff' | 'retry-after'; errorClass: RetryErrorClass }
+  | { retry: false; reason: string; errorClass?: RetryErrorClass };
+
+/**
+ * Merge partial policies over a base, later ones winning; per class overrides are merged class by class
+ * @param base the policy to start from
+ * @param overrides partial policies, e.g. app-wide then per provider
+ * @returns The merged policy
+ */
+export function mergeRetryPolicy(base: RetryPolicy, ...overrides: Array<RetryPolicyOptions | undefined>): RetryPolicy {
+  return overrides.reduce<RetryPolicy>((merged, override) => {
+    if (!override) {
+      return merged;
+    }
+    const errorClasses = { ...merged.errorClasses };
+    for (const [errorClass, rule] of Object.entries(override.errorClasses ?? {}) as Array<[RetryErrorClass, Partial<RetryRule> | false]>) {
+      const current = errorClasses[errorClass];
+      errorClasses[errorClass] = rule === false || current === false ? rule : { ...current, ...rule };
+    }
+    return { ...merged, ...override, errorClasses };
+  }, base);
+}
+
+/**
+ * Classify an error for retrying
+ * @param error the error an attempt failed with
+ * @returns The error class, or undefined if retrying can't help
+ */
+export function classifyRetryError(error: unknown): RetryErrorClass | undefined {
+  if (error instanceof DohTimeoutError) {
+    return 'timeout';
+  }
+  if (error instanceof DohNetworkError) {
+    return 'network';
+  }
+  if (error instanceof DohHttpError) {
+    if (error.status === 429) {
+      return 'rateLimited';
+    }
+    if ([500, 502, 503, 504].includes(error.status)) {
+      return 'serverError';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the rule a policy applies to an error class
+ * @returns The rule, or undefined if the class is never retried
+ */
+export function getRetryRule(policy: RetryPolicy, errorClass: RetryErrorClass): RetryRule | undefined {
+  const override = policy.errorClasses[errorClass];
+  if (override === false) {
+    return undefined;
+  }
+  return {
+    maxAttempts: override?.maxAttempts ?? policy.maxAttempts,
+    baseDelayMs: override?.baseDelayMs ?? policy.baseDelayMs,
+    maxDelayMs: override?.maxDelayMs ?? policy.maxDelayMs
+  };
+}
+
+/**
+ * Compute the jittered exponential backoff before a retry
+ * @param rule the rule in effect
+ * @param jitter how to randomize the delay
+ * @param attempt the attempt that just failed, starting at 1
+ * @param random a source of numbers in [0, 1)
+ * @returns The delay in milliseconds
+ */
+export function computeBackoff(rule: RetryRule, jitter: RetryPolicy['jitter'], attempt: number, random: () => number = Math.random): number {
+  const backoff = Math.min(rule.maxDelayMs, rule.baseDelayMs * 2 ** (attempt - 1));
+  switch (jitter) {
+    case 'full':
+      return Math.round(random() * backoff);
+    case 'equal':
+      return Math.round(backoff / 2 + random() * backoff / 2);
+    default:
+      return backoff;
+  }
+}
+
+/**
+ * Decide whether to retry a failed attempt
+ * @param policy the policy in effect
+ * @param error the error the attempt failed with
+ * @param attempt the attempt that just failed, starting at 1
+ * @param remainingMs time left before the deadline
+ * @returns Whether to retry, and after how long
+ */
+export function planRetry(policy: RetryPolicy, error: unknown, attempt: number, remainingMs: number = Infinity): RetryDecision {
+  const errorClass = classifyRetryError(error);
+  if (!errorClass) {
+    return { retry: false, reason: 'not retryable' };
+  }
+  const rule = getRetryRule(policy, errorClass);
+  if (!rule) {
+    return { retry: false, reason: `${errorClass} errors are not retried`, errorClass };
+  }
+  if (attempt >= rule.maxAttempts) {
+    return { retry: false, reason: `${rule.maxAttempts} attempts exhausted`, errorClass };
+  }
+
+  let decision: RetryDecision = { retry: true, delayMs: computeBackoff(rule, policy.jitter, attempt), source: 'backoff', errorClass };
+  const retryAfterMs = error instanceof DohHttpError && (error.status === 429 || error.status === 503) ? error.retryAfterMs : undefined;
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    if (retryAfterMs > policy.maxRetryAfterMs) {
+      return { retry: false, reason: `Retry-After of ${retryAfterMs}ms is too long`, errorClass };
+    }
+    decision = { retry: true, delayMs: retryAfterMs, source: 'retry-after', errorClass };
+  }
+
+  // Leave the attempt some time to run, not just the wait
+  if (decision.delayMs >= remainingMs) {
+    return { retry: false, reason: 'domain deadline reached', errorClass };
+  }
+  return decision;
+}
+
+/**
+ * Wait out a retry delay
+ * @param delayMs how long to wait
+ * @param signal cancels the wait, which then rejects with the signal's reason
+ */
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const cancel = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+}
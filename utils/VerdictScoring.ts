@@ -0,0 +1,263 @@
+/**
+ * Verdict scoring
+ * Weighs a domain's evidence into a verdict. Each rule turns the evidence it understands into points towards
+ * registered (positive) or available (negative); the points add up to log-odds, which give the probability the
+ * domain is registered. The status follows from thresholds on that probability, and the confidence says how far
+ * from a coin flip it is. A new heuristic is a new rule.
+ */
+
+import type { Evidence, EvidenceKind } from './Evidence';
+import type { ConsensusPolicy } from './ConsensusPolicy';
+
+/** The statuses a verdict can reach (the values of DomainAvailabilityStatus) */
+export type VerdictStatus = 'available' | 'registered' | 'premium' | 'indeterminate' | 'error';
+
+export interface ScoringContext {
+  domain: string;
+  policy: ConsensusPolicy;
+}
+
+/**
+ * What a rule makes of the evidence
+ */
+export interface RuleOutcome {
+  /** Log-odds points: positive towards registered, negative towards available */
+  points: number;
+  /** A status the evidence rules out whatever the score, e.g. available under a wildcard */
+  rulesOut?: 'available' | 'registered';
+  /** The domain looks offered for sale: a registered verdict becomes premium */
+  premium?: boolean;
+  /** Why, in a sentence */
+  reason: string;
+}
+
+export interface ScoringRule {
+  /** Stable id, listed with the rule's contribution */
+  id: string;
+  /** The kinds of evidence the rule weighs; evidence of kinds no rule claims is weighed as it is (see `weighUnclaimed`) */
+  kinds: EvidenceKind[];
+  /** Weigh the evidence; undefined when the rule has nothing to say */
+  apply: (evidence: Evidence[], context: ScoringContext) => RuleOutcome | undefined;
+}
+
+/**
+ * Confidence a status needs, from 0 (a coin flip) to 100 (certain); below them the verdict is indeterminate
+ */
+export interface ScoringThresholds {
+  registered: number;
+  /** Usually the higher: a wrong "available" costs more than a wrong "registered" */
+  available: number;
+}
+
+export interface RuleContribution extends RuleOutcome {
+  rule: string;
+}
+
+export interface Verdict {
+  status: VerdictStatus;
+  /** How sure the verdict is, from 0 to 100; an indeterminate verdict stays below the threshold of the status it leans to */
+  confidence: number;
+  /** The probability the domain is registered, from 0 to 1 */
+  registeredProbability: number;
+  /** What each rule that applied made of the evidence */
+  contributions: RuleContribution[];
+}
+
+export const DEFAULT_SCORING_THRESHOLDS: ScoringThresholds = {
+  registered: 40,
+  available: 70
+};
+
+// Points an unclaimed piece of evidence of weight 1 is worth
+const UNCLAIMED_SCALE = 3;
+
+// Points a provider's parking nameserver of weight 1 is worth
+const PARKED_NS_SCALE = 2;
+
+// Answers from providers, as opposed to failed queries and derived signals
+const ANSWER_KINDS: EvidenceKind[] = ['nxdomain', 'ns-found', 'no-records', 'servfail'];
+
+const providersWith = (evidence: Evidence[], predicate: (item: Evidence) => boolean): string[] =>
+  [...new Set(evidence.filter(predicate).map(item => item.provider ?? ''))];
+
+/**
+ * The built-in rules
+ */
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  {
+    id: 'delegation',
+    kinds: ['ns-found'],
+    apply: evidence => {
+      const providers = providersWith(evidence, item => item.kind === 'ns-found');
+      if (providers.length === 0) return undefined;
+      // The first delegation found nearly settles it; more only add a little
+      return { points: 4 + (providers.length - 1), reason: `${providers.length} provider(s) found NS/SOA records` };
+    }
+  },
+  {
+    id: 'nxdomain',
+    kinds: ['nxdomain'],
+    apply: (evidence, { policy }) => {
+      const providers = providersWith(evidence, item => item.kind === 'nxdomain');
+      if (providers.length === 0) return undefined;
+      const nsVotes = providersWith(evidence, item => item.kind === 'nxdomain' && item.queryType === 'NS').length;
+      const nsQuorum = nsVotes >= policy.quorum;
+      return {
+        points: -1.5 * providers.length - (nsQuorum ? 1.5 : 0),
+        // However many answers add up, available needs the policy's quorum of NXDOMAIN answers to the NS query
+        rulesOut: nsQuorum ? undefined : 'available',
+        reason: `${providers.length} provider(s) answered NXDOMAIN${nsQuorum ? `, a quorum of ${policy.quorum} for NS` : `, ${nsVotes} of the ${policy.quorum} the policy needs for NS`}`
+      };
+    }
+  },
+  {
+    id: 'unanimous-nxdomain',
+    kinds: [],
+    apply: (evidence, { policy }) => {
+      if (!policy.requireUnanimousNxDomain) return undefined;
+      const responses = evidence.filter(item => [...ANSWER_KINDS, 'error', 'dns-error'].includes(item.kind) && item.provider);
+      const other = responses.filter(item => item.kind !== 'nxdomain').length;
+      if (other === 0) return undefined;
+      return { points: 0, rulesOut: 'available', reason: `${other} of ${responses.length} responses were not NXDOMAIN; the consensus policy requires every one of them` };
+    }
+  },
+  {
+    id: 'denial-proof',
+    kinds: ['denial-proof'],
+    apply: evidence => evidence.some(item => item.kind === 'denial-proof' && item.direction === 'available')
+      ? { points: -6, reason: 'DNSSEC-authenticated denial of existence proves the domain is not delegated' }
+      : undefined
+  },
+  {
+    id: 'active-usage',
+    kinds: ['active-usage'],
+    apply: evidence => evidence.some(item => item.kind === 'active-usage')
+      ? { points: 6, reason: 'Verification TXT records show the domain in use' }
+      : undefined
+  },
+  {
+    id: 'parking',
+    kinds: ['parked-ns', 'txt-pattern'],
+    apply: evidence => {
+      // Each provider counts once, by its strongest nameserver: a parking service's outweighs a host's default
+      const nsProviders = providersWith(evidence, item => item.kind === 'parked-ns');
+      const ns = nsProviders.reduce((sum, provider) => sum + Math.max(...evidence.filter(item => item.kind === 'parked-ns' && (item.provider ?? '') === provider).map(item => item.weight)), 0);
+      const txt = evidence.filter(item => item.kind === 'txt-pattern').reduce((sum, item) => sum + item.weight, 0);
+      if (ns === 0 && txt === 0) return undefined;
+      return {
+        points: PARKED_NS_SCALE * ns + txt,
+        reason: `Parking signals: ${nsProviders.length} provider(s) report parking-related nameservers, weight ${ns.toFixed(2)}; TXT pattern weight ${txt.toFixed(2)}`
+      };
+    }
+  },
+  {
+    id: 'for-sale',
+    kinds: ['for-sale'],
+    apply: evidence => {
+      const providers = providersWith(evidence, item => item.kind === 'for-sale');
+      if (providers.length === 0) return undefined;
+      const delegated = evidence.some(item => item.kind === 'ns-found');
+      const absent = evidence.some(item => item.kind === 'nxdomain');
+      return {
+        points: providers.length,
+        // A domain that doesn't exist can't have TXT records; the conflict leaves it undecided
+        rulesOut: absent ? 'available' : undefined,
+        premium: !delegated && !absent,
+        reason: `${providers.length} provider(s) show TXT records offering the domain for sale`
+      };
+    }
+  },
+  {
+    id: 'servfail',
+    kinds: ['servfail'],
+    apply: (evidence, { policy }) => {
+      const count = evidence.filter(item => item.kind === 'servfail').length;
+      if (count === 0 || policy.servfail !== 'registered') return undefined;
+      return { points: count, reason: `${count} SERVFAIL response(s), which often occur with registered but misconfigured domains` };
+    }
+  },
+  {
+    id: 'errors',
+    kinds: ['error', 'dns-error'],
+    apply: evidence => {
+      const count = evidence.filter(item => (item.kind === 'error' || item.kind === 'dns-error') && item.direction === 'registered').length;
+      if (count === 0) return undefined;
+      return { points: 0.75 * count, reason: `${count} error(s) of a kind that occurs with registered domains` };
+    }
+  },
+  {
+    id: 'no-records',
+    kinds: ['no-records'],
+    apply: evidence => {
+      const count = evidence.filter(item => item.kind === 'no-records').length;
+      if (count === 0) return undefined;
+      return { points: 0.25 * count, reason: `${count} NOERROR response(s) without NS/SOA records` };
+    }
+  },
+  {
+    id: 'wildcard',
+    kinds: ['wildcard'],
+    apply: (evidence, { domain, policy }) => {
+      const detected = evidence.some(item => item.kind === 'wildcard' && item.values?.includes(domain));
+      if (!detected) return undefined;
+      const proven = evidence.some(item => item.kind === 'denial-proof' && item.direction === 'available');
+      if (policy.wildcard === 'ignore' || proven) {
+        return { points: 0, reason: `Wildcard DNS detected, but ${proven ? 'the signed proof also rules out a wildcard' : 'the consensus policy ignores it'}` };
+      }
+      return { points: 0, rulesOut: 'available', reason: 'Wildcard DNS makes NXDOMAIN answers unreliable' };
+    }
+  }
+];
+
+// Evidence no rule claims counts for its own direction and weight
+const weighUnclaimed = (evidence: Evidence[], rules: ScoringRule[]): RuleContribution | undefined => {
+  const claimed = new Set(rules.flatMap(rule => rule.kinds));
+  const unclaimed = evidence.filter(item => !claimed.has(item.kind) && item.direction !== 'neutral');
+  if (unclaimed.length === 0) return undefined;
+  const points = unclaimed.reduce((sum, item) => sum + (item.direction === 'registered' ? 1 : -1) * item.weight * UNCLAIMED_SCALE, 0);
+  return { rule: 'other-signals', points, reason: `${unclaimed.length} other signal(s)` };
+};
+
+/**
+ * Weigh a domain's evidence into a verdict
+ * @param evidence everything the check found
+ * @param context the domain and the consensus policy
+ * @param rules the rules to apply
+ * @param thresholds the confidence each status needs
+ * @returns The verdict, with what each rule contributed
+ */
+export function scoreVerdict(
+  evidence: Evidence[],
+  context: ScoringContext,
+  rules: ScoringRule[] = DEFAULT_SCORING_RULES,
+  thresholds: ScoringThresholds = DEFAULT_SCORING_THRESHOLDS
+): Verdict {
+  const contributions: RuleContribution[] = [];
+  for (const rule of rules) {
+    const outcome = rule.apply(evidence, context);
+    if (outcome) contributions.push({ rule: rule.id, ...outcome });
+  }
+  const unclaimed = weighUnclaimed(evidence, rules);
+  if (unclaimed) contributions.push(unclaimed);
+
+  // Without a single answer there is nothing to weigh
+  const answered = evidence.some(item => ANSWER_KINDS.includes(item.kind) && item.weight > 0);
+  if (!answered && contributions.every(contribution => contribution.points === 0)) {
+    return { status: evidence.some(item => item.kind === 'error' || item.kind === 'dns-error' || item.kind === 'servfail') ? 'error' : 'indeterminate', confidence: 0, registeredProbability: 0.5, contributions };
+  }
+
+  const logOdds = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+  const registeredProbability = 1 / (1 + Math.exp(-logOdds));
+  const strength = Math.round(Math.abs(2 * registeredProbability - 1) * 100);
+  const ruledOut = new Set(contributions.map(contribution => contribution.rulesOut).filter(Boolean));
+
+  if (logOdds > 0 && strength >= thresholds.registered && !ruledOut.has('registered')) {
+    const status = contributions.some(contribution => contribution.premium) ? 'premium' : 'registered';
+    return { status, confidence: strength, registeredProbability, contributions };
+  }
+  if (logOdds < 0 && strength >= thresholds.available && !ruledOut.has('available')) {
+    return { status: 'available', confidence: strength, registeredProbability, contributions };
+  }
+  const threshold = logOdds > 0 ? thresholds.registered : thresholds.available;
+  return { status: 'indeterminate', confidence: Math.max(0, Math.min(strength, threshold - 1)), registeredProbability, contributions };
+}